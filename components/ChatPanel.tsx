@@ -9,7 +9,7 @@ import {
   TypingIndicator
 } from "@chatscope/chat-ui-kit-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { streamChat } from "../lib/stream";
+import { cancelChat, streamChat, type ChatHistoryPage } from "../lib/stream";
 import { getStageInstruction } from "../lib/stage-instructions";
 
 type Role = "user" | "assistant" | "orchestrator";
@@ -21,6 +21,11 @@ type ChatItem = {
   createdAt: number;
 };
 
+type HistoryPage = ChatHistoryPage;
+
+// Edits and regenerations fork the stored conversation at `editOf` / `regenerateOf`
+type BranchTarget = { editOf?: number; regenerateOf?: number };
+
 type RoleMeta = {
   label: string;
   direction: "incoming" | "outgoing";
@@ -65,6 +70,21 @@ function RoleBadge({ role }: { role: Role }) {
   );
 }
 
+function toChatItems(page: HistoryPage): ChatItem[] {
+  return page.messages.map((message) => ({
+    id: `history-${message.id}`,
+    role: message.role,
+    text: message.content,
+    createdAt: message.created_at
+  }));
+}
+
+// Only messages loaded from history carry a stored id; fresh ones get theirs on the next reload
+function storedMessageId(item: ChatItem) {
+  const match = /^history-(\d+)$/.exec(item.id);
+  return match ? Number(match[1]) : undefined;
+}
+
 function formatTimestamp(value: number) {
   return new Intl.DateTimeFormat("en", { hour: "numeric", minute: "2-digit" }).format(value);
 }
@@ -81,21 +101,107 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
   const [typingRole, setTypingRole] = useState<Role | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [notice, setNotice] = useState<string | null>(null);
+  // Stage whose stored transcript has been loaded; sending waits for it so new turns land after the history
+  const [hydratedStage, setHydratedStage] = useState<string | null>(null);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
   const requestInFlightRef = useRef(false);
   const streamingMessageIdRef = useRef<string | null>(null);
   const abortRef = useRef<AbortController | null>(null);
   const autoPromptedRef = useRef<Record<string, boolean>>({});
   const onSendRef = useRef<((text: string) => Promise<void> | void) | null>(null);
+  const stageRef = useRef(stage);
+  stageRef.current = stage;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
 
   useEffect(() => {
     return () => {
-      abortRef.current?.abort();
+      if (requestInFlightRef.current) {
+        abortRef.current?.abort();
+        void cancelChat().catch(() => undefined);
+      }
     };
   }, []);
 
   const stageLabel = useMemo(() => stage.replace(/_/g, " "), [stage]);
   const stageInstruction = useMemo(() => getStageInstruction(stage), [stage]);
 
+  const fetchHistory = useCallback(
+    async (cursor?: string) => {
+      const params = new URLSearchParams({ stage });
+      if (cursor) params.set("cursor", cursor);
+      const r = await fetch(`/api/chat/history?${params.toString()}`, { credentials: "include" });
+      if (!r.ok) throw new Error(`Chat history request failed with ${r.status}`);
+      return (await r.json()) as HistoryPage;
+    },
+    [stage]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setHydratedStage(null);
+    setMessages([]);
+    setHistoryCursor(null);
+    void fetchHistory()
+      .then((page) => {
+        if (cancelled) return;
+        setMessages(toChatItems(page));
+        setHistoryCursor(page.next_cursor);
+      })
+      .catch(() => {
+        // A missing transcript only costs the scrollback; the chat itself still works
+      })
+      .finally(() => {
+        if (!cancelled) setHydratedStage(stage);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchHistory, stage]);
+
+  const loadEarlier = useCallback(async () => {
+    if (!historyCursor) return;
+    setLoadingEarlier(true);
+    try {
+      const page = await fetchHistory(historyCursor);
+      setMessages((prev) => [...toChatItems(page), ...prev]);
+      setHistoryCursor(page.next_cursor);
+    } catch {
+      // Leave the cursor in place so the user can retry
+    } finally {
+      setLoadingEarlier(false);
+    }
+  }, [fetchHistory, historyCursor]);
+
+  // Swaps the newest messages for the stored active branch so every message has its stored id.
+  // Older pages the user already loaded stay in place, along with the cursor that pages past them.
+  const applyHistoryPage = useCallback((page: HistoryPage) => {
+    const oldest = page.messages[0]?.id;
+    const earlier =
+      oldest === undefined
+        ? []
+        : messagesRef.current.filter((item) => {
+            const id = storedMessageId(item);
+            return id !== undefined && id < oldest;
+          });
+    setMessages([...earlier, ...toChatItems(page)]);
+    setHistoryCursor((current) => (earlier.length > 0 ? current : page.next_cursor));
+  }, []);
+
+  const reloadHistory = useCallback(
+    async (turnStage: string) => {
+      try {
+        const page = await fetchHistory();
+        if (stageRef.current !== turnStage) return;
+        applyHistoryPage(page);
+      } catch {
+        // Keep the streamed transcript; edit and regenerate come back after the next reload
+      }
+    },
+    [applyHistoryPage, fetchHistory]
+  );
+
   const appendMessage = useCallback((role: Role, text: string) => {
     setMessages((prev) => [...prev, { id: crypto.randomUUID(), role, text, createdAt: Date.now() }]);
   }, []);
@@ -130,8 +236,8 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
     setIsStreaming(false);
   }, []);
 
-  const onSend = useCallback(
-    async (text: string) => {
+  const sendTurn = useCallback(
+    async (text: string, branch: BranchTarget = {}) => {
       const trimmed = text.trim();
       if (!trimmed) return;
 
@@ -139,6 +245,8 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
         abortRef.current?.abort();
         requestInFlightRef.current = false;
         resetStreamState();
+        // Wait for the server to stop the old turn so this one does not hit its chat lock
+        await cancelChat().catch(() => undefined);
       }
 
       const controller = new AbortController();
@@ -146,15 +254,28 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
 
       requestInFlightRef.current = true;
       setNotice(null);
-      appendMessage("user", trimmed);
+      const forkedId = branch.editOf ?? branch.regenerateOf;
+      if (forkedId !== undefined) {
+        // Drop the replaced message and everything after it; the server forks the branch there
+        setMessages((prev) => {
+          const index = prev.findIndex((item) => storedMessageId(item) === forkedId);
+          return index === -1 ? prev : prev.slice(0, index);
+        });
+      }
+      if (branch.regenerateOf === undefined) {
+        appendMessage("user", trimmed);
+      }
       setIsStreaming(true);
       setTypingRole("assistant");
       streamingMessageIdRef.current = null;
 
+      let completed = false;
       try {
         await streamChat({
           message: trimmed,
           stage,
+          editOf: branch.editOf,
+          regenerateOf: branch.regenerateOf,
           signal: controller.signal,
           handlers: {
             onAssistantDelta: appendAssistantDelta,
@@ -168,6 +289,13 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
                 onStageReady(readyStage);
               }
             },
+            onHistoryReset: (page) => {
+              // The stored transcript replaces the partial reply; the rest of the turn streams into a new one
+              if (stageRef.current !== stage) return;
+              streamingMessageIdRef.current = null;
+              applyHistoryPage(page);
+              setNotice("Reconnected after missing part of the reply. It will show in full once the turn finishes.");
+            },
             onStageNeedsMore: ({ reason }) => {
               setNotice(reason ? `Stage needs more: ${reason}` : "Stage needs more input from you.");
             },
@@ -176,14 +304,49 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
             }
           }
         });
+        completed = true;
       } catch {
         // errors handled via handlers
       } finally {
         requestInFlightRef.current = false;
         resetStreamState();
       }
+      if (completed) {
+        await reloadHistory(stage);
+      }
+    },
+    [
+      appendAssistantDelta,
+      appendMessage,
+      applyHistoryPage,
+      onDocUpdated,
+      onStageReady,
+      reloadHistory,
+      resetStreamState,
+      stage
+    ]
+  );
+
+  const onSend = useCallback((text: string) => sendTurn(text), [sendTurn]);
+
+  const editMessage = useCallback(
+    (item: ChatItem) => {
+      const id = storedMessageId(item);
+      if (id === undefined) return;
+      const revised = window.prompt("Edit your message", item.text);
+      if (revised === null || !revised.trim() || revised.trim() === item.text.trim()) return;
+      void sendTurn(revised, { editOf: id });
     },
-    [appendAssistantDelta, appendMessage, onDocUpdated, onStageReady, resetStreamState, stage]
+    [sendTurn]
+  );
+
+  const regenerateMessage = useCallback(
+    (item: ChatItem, previous?: ChatItem) => {
+      const id = storedMessageId(item);
+      if (id === undefined || previous?.role !== "user") return;
+      void sendTurn(previous.text, { regenerateOf: id });
+    },
+    [sendTurn]
   );
 
   useEffect(() => {
@@ -229,9 +392,13 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
     return () => window.removeEventListener("chat.debug", handler as EventListener);
   }, [appendAssistantDelta, onDocUpdated, onStageReady]);
 
+  // Kick off the stage interview only for a stage with no stored conversation, so a reload
+  // resumes the transcript instead of starting it over
+  const stageHasHistory = messages.length > 0;
   useEffect(() => {
     const prompt = AUTO_STAGE_PROMPTS[stage];
     if (!prompt) return;
+    if (hydratedStage !== stage || stageHasHistory) return;
     if (autoPromptedRef.current[stage]) return;
     if (requestInFlightRef.current) return;
     autoPromptedRef.current[stage] = true;
@@ -241,7 +408,7 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
         autoPromptedRef.current[stage] = false;
       });
     }
-  }, [stage]);
+  }, [hydratedStage, stage, stageHasHistory]);
 
   return (
     <div data-testid="chat-panel" className={`space-y-3 ${className ?? ""}`}>
@@ -316,6 +483,17 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
           color: white !important;
         }
       `}</style>
+      {historyCursor ? (
+        <button
+          type="button"
+          data-testid="chat-load-earlier"
+          onClick={() => void loadEarlier()}
+          disabled={loadingEarlier}
+          className="text-xs font-semibold text-blue-600 hover:underline disabled:cursor-wait disabled:opacity-50"
+        >
+          {loadingEarlier ? "Loading earlier messages…" : "Load earlier messages"}
+        </button>
+      ) : null}
       <MainContainer style={{ height: "390px", borderRadius: "1rem" }}>
         <ChatContainer>
           <MessageList
@@ -324,8 +502,10 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
               typingRole ? <TypingIndicator content={`${roleMeta[typingRole].label} is responding…`} /> : undefined
             }
           >
-            {messages.map((m) => {
+            {messages.map((m, index) => {
               const meta = roleMeta[m.role];
+              const previous = messages[index - 1];
+              const canBranch = !isStreaming && storedMessageId(m) !== undefined;
               return (
                 <div key={m.id} className="px-1 py-1">
                   <Message
@@ -347,6 +527,26 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
                   </Message>
                   <div className={`${meta.direction === "outgoing" ? "text-right" : "text-left"} mt-1 px-2`}>
                     <RoleBadge role={m.role} />
+                    {canBranch && m.role === "user" ? (
+                      <button
+                        type="button"
+                        data-testid="chat-edit-message"
+                        onClick={() => editMessage(m)}
+                        className="ml-2 text-[11px] font-semibold text-slate-500 hover:text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    ) : null}
+                    {canBranch && m.role === "assistant" && previous?.role === "user" ? (
+                      <button
+                        type="button"
+                        data-testid="chat-regenerate-message"
+                        onClick={() => regenerateMessage(m, previous)}
+                        className="ml-2 text-[11px] font-semibold text-slate-500 hover:text-blue-600 hover:underline"
+                      >
+                        Regenerate
+                      </button>
+                    ) : null}
                   </div>
                 </div>
               );
@@ -357,7 +557,7 @@ export default function ChatPanel({ stage, className, onDocUpdated, onStageReady
             onSend={onSend}
             attachButton={false}
             sendButton={true}
-            disabled={isStreaming}
+            disabled={isStreaming || hydratedStage !== stage}
           />
         </ChatContainer>
       </MainContainer>
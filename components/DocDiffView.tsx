@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DocDiff, SectionChangeStatus } from "../src/utils/doc-diff";
+
+type DocDiffResponse = DocDiff & {
+  name: string;
+  from: number | "current" | null;
+  to: number | "current";
+};
+
+type DocDiffViewProps = {
+  name: string;
+  revision: number;
+};
+
+const sectionTone: Record<SectionChangeStatus, string> = {
+  added: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  removed: "bg-rose-50 text-rose-700 border-rose-200",
+  changed: "bg-amber-50 text-amber-800 border-amber-200",
+  unchanged: "bg-slate-50 text-slate-500 border-slate-200"
+};
+
+const lineTone = {
+  added: "bg-emerald-50 text-emerald-900",
+  removed: "bg-rose-50 text-rose-900 line-through decoration-rose-300",
+  context: "text-slate-600"
+} as const;
+
+const linePrefix = { added: "+", removed: "-", context: " " } as const;
+
+export default function DocDiffView({ name, revision }: DocDiffViewProps) {
+  const [diff, setDiff] = useState<DocDiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    void fetch(`/api/docs/${encodeURIComponent(name)}/diff`, { credentials: "include" })
+      .then((r) => (r.ok ? r.json() : Promise.reject(r)))
+      .then((json: DocDiffResponse) => {
+        if (!cancelled) setDiff(json);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setDiff(null);
+          setError("Unable to load changes for this document.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name, revision]);
+
+  if (error) {
+    return <p className="text-sm text-rose-600">{error}</p>;
+  }
+
+  if (!diff) {
+    return <p className="text-sm text-slate-500">Loading changes…</p>;
+  }
+
+  if (diff.from === null) {
+    return <p className="text-sm text-slate-500">No earlier version to compare against yet.</p>;
+  }
+
+  const changedSections = diff.sections.filter((section) => section.status !== "unchanged");
+
+  return (
+    <div data-testid="doc-diff" className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+        <span className="text-emerald-700">+{diff.stats.added}</span>
+        <span className="text-rose-700">-{diff.stats.removed}</span>
+        {changedSections.length === 0 ? (
+          <span className="text-slate-500">No section-level changes.</span>
+        ) : (
+          changedSections.map((section) => (
+            <span
+              key={`${section.status}:${section.heading}`}
+              className={`rounded-full border px-2 py-0.5 ${sectionTone[section.status]}`}
+            >
+              {section.status} · {section.heading}
+            </span>
+          ))
+        )}
+      </div>
+      <pre className="max-h-96 overflow-auto rounded-2xl border border-slate-200 bg-white p-4 font-mono text-xs leading-5">
+        {diff.lines.map((line, index) => (
+          <div key={index} className={`whitespace-pre-wrap px-2 ${lineTone[line.type]}`}>
+            {linePrefix[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ChecklistItem = { index: number; section: string; text: string; checked: boolean };
+
+type Progress = {
+  total: number;
+  done: number;
+  percent: number;
+  sections: Array<{ section: string; total: number; done: number; percent: number }>;
+};
+
+type PlanProgressProps = {
+  /** Bumped by the parent whenever prompt_plan.md may have changed. */
+  revision: number;
+  readOnly?: boolean;
+  onToggled?: () => void;
+};
+
+export default function PlanProgress({ revision, readOnly = false, onToggled }: PlanProgressProps) {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [pending, setPending] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const r = await fetch("/api/plan/checklist", { credentials: "include" });
+    if (!r.ok) return;
+    const json = (await r.json()) as { items: ChecklistItem[]; progress: Progress };
+    setItems(json.items);
+    setProgress(json.progress);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load, revision]);
+
+  async function toggle(item: ChecklistItem) {
+    setPending(item.index);
+    setError(null);
+    try {
+      const r = await fetch(`/api/plan/checklist/${item.index}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checked: !item.checked, text: item.text })
+      });
+      if (!r.ok) {
+        setError(r.status === 409 ? "The plan changed; refreshed the checklist." : "Could not update the checklist.");
+      }
+      await load();
+      onToggled?.();
+    } finally {
+      setPending(null);
+    }
+  }
+
+  if (!progress || progress.total === 0) return null;
+
+  return (
+    <div data-testid="plan-progress" className="mt-8 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-500">Plan progress</h2>
+        <span className="text-xs font-semibold text-slate-700">{progress.percent}%</span>
+      </div>
+      {error ? <p className="text-xs text-rose-700">{error}</p> : null}
+      {progress.sections.map((section) => (
+        <details key={section.section} className="rounded-2xl border border-slate-200 bg-white p-3 text-xs">
+          <summary className="flex cursor-pointer items-center justify-between gap-2 font-semibold text-slate-800">
+            <span className="truncate">{section.section || "Checklist"}</span>
+            <span className="shrink-0 text-slate-500">
+              {section.done}/{section.total} · {section.percent}%
+            </span>
+          </summary>
+          <div className="mt-2 h-1.5 rounded-full bg-slate-100">
+            <div className="h-1.5 rounded-full bg-emerald-500" style={{ width: `${section.percent}%` }} />
+          </div>
+          <ul className="mt-2 space-y-1">
+            {items
+              .filter((item) => item.section === section.section)
+              .map((item) => (
+                <li key={item.index}>
+                  <label className="flex items-start gap-2 text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      disabled={readOnly || pending !== null}
+                      onChange={() => void toggle(item)}
+                      className="mt-0.5"
+                    />
+                    <span className={item.checked ? "text-slate-400 line-through" : undefined}>{item.text}</span>
+                  </label>
+                </li>
+              ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type CheckStatus = "pass" | "fail" | "skip";
+
+type StageCheck = {
+  id: string;
+  label: string;
+  status: CheckStatus;
+  severity: "error" | "warning" | "info";
+  reason?: string;
+};
+
+type ReadinessChecklistProps = {
+  stage: string;
+  /** Bumped by the parent whenever a doc or design the stage validates may have changed. */
+  revision: number;
+};
+
+const statusTone: Record<CheckStatus, { icon: string; className: string }> = {
+  pass: { icon: "✓", className: "text-emerald-700" },
+  fail: { icon: "✗", className: "text-rose-700" },
+  skip: { icon: "–", className: "text-slate-400" }
+};
+
+// Failed warnings and infos do not block approval, so they read as advice rather than errors
+const adviceTone = { icon: "!", className: "text-amber-700" };
+
+function toneFor(check: StageCheck) {
+  return check.status === "fail" && check.severity !== "error" ? adviceTone : statusTone[check.status];
+}
+
+export default function ReadinessChecklist({ stage, revision }: ReadinessChecklistProps) {
+  const [checks, setChecks] = useState<StageCheck[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetch(`/api/stages/${stage}/validation`, { credentials: "include" })
+      .then((r) => (r.ok ? r.json() : Promise.reject(r)))
+      .then((json: { checks: StageCheck[] }) => {
+        if (!cancelled) setChecks(json.checks);
+      })
+      .catch(() => {
+        if (!cancelled) setChecks(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stage, revision]);
+
+  if (!checks || checks.length === 0) return null;
+
+  const passed = checks.filter((check) => check.status === "pass").length;
+
+  return (
+    <div data-testid="readiness-checklist" className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-500">Readiness</h2>
+        <span className="text-xs font-semibold text-slate-700">
+          {passed}/{checks.length} checks pass
+        </span>
+      </div>
+      <ul className="mt-2 grid gap-1 sm:grid-cols-2">
+        {checks.map((check) => (
+          <li
+            key={check.id}
+            data-testid={`readiness-${check.id}`}
+            title={check.reason ?? (check.status === "skip" ? "Checked once the doc has content." : undefined)}
+            className={`flex items-start gap-2 ${toneFor(check).className}`}
+          >
+            <span aria-hidden className="w-3 shrink-0 font-semibold">
+              {toneFor(check).icon}
+            </span>
+            <span>{check.label}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
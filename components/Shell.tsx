@@ -3,7 +3,10 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import ChatPanel from "./ChatPanel";
 import DesignStage from "./DesignStage";
+import DocDiffView from "./DocDiffView";
 import ExportPanel from "./ExportPanel";
+import PlanProgress from "./PlanProgress";
+import ReadinessChecklist from "./ReadinessChecklist";
 import MarkdownEditor from "./MarkdownEditor";
 import MarkdownPreview from "./MarkdownPreview";
 
@@ -13,7 +16,10 @@ type SessionResponse = {
   current_stage: StageSlug;
   approved: Record<string, boolean>;
   docs: string[];
+  stale_docs: string[];
+  upstream_changed: Record<string, string[]>;
   designs_count: number;
+  finalized_at: number | null;
 };
 
 type DocName = "idea_one_pager.md" | "spec.md" | "prompt_plan.md" | "AGENTS.md";
@@ -77,11 +83,15 @@ export default function Shell() {
   const [loading, setLoading] = useState(true);
   const [selectedDoc, setSelectedDoc] = useState<DocName | null>(null);
   const [docContent, setDocContent] = useState("");
-  const [docView, setDocView] = useState<"preview" | "edit">("preview");
+  const [docView, setDocView] = useState<"preview" | "edit" | "changes">("preview");
+  const [docRevision, setDocRevision] = useState(0);
+  const [validationRevision, setValidationRevision] = useState(0);
   const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState<DocName | null>(null);
   const [locked, setLocked] = useState(false);
   const [stageReadyOverrides, setStageReadyOverrides] = useState<Partial<Record<StageSlug, boolean>>>({});
   const handleDesignIndexUpdate = useCallback((count: number) => {
+    setValidationRevision((prev) => prev + 1);
     setSession((prev) => {
       if (!prev) return prev;
       if (prev.designs_count === count) return prev;
@@ -110,6 +120,7 @@ export default function Shell() {
         .then((json: { content: string }) => {
           if (selectedDoc === name) {
             setDocContent(json.content ?? "");
+            setDocRevision((prev) => prev + 1);
           }
         })
         .catch(() => {
@@ -162,7 +173,8 @@ export default function Shell() {
   }, [currentStage, session, stageReadyOverrides]);
 
   const docStage = selectedDoc ? docStageMap[selectedDoc] : null;
-  const docLocked = locked || (docStage ? Boolean(session?.approved[docStage]) : false);
+  const finalized = Boolean(session?.finalized_at);
+  const docLocked = locked || finalized || (docStage ? Boolean(session?.approved[docStage]) : false);
 
   async function handleCopy(name: DocName) {
     const r = await fetch(`/api/docs/${encodeURIComponent(name)}`, { credentials: "include" });
@@ -196,6 +208,9 @@ export default function Shell() {
       });
       if (res.status === 409) {
         setLocked(true);
+      } else if (res.ok) {
+        setDocRevision((prev) => prev + 1);
+        setValidationRevision((prev) => prev + 1);
       }
     } finally {
       setSaving(false);
@@ -204,10 +219,14 @@ export default function Shell() {
 
   async function approveStage() {
     if (!session) return;
-    await fetch(`/api/stages/${session.current_stage}/approve`, {
+    const res = await fetch(`/api/stages/${session.current_stage}/approve`, {
       method: "POST",
       credentials: "include"
     });
+    if (res.status === 422 && session.current_stage === "export") {
+      const body = (await res.json().catch(() => null)) as { reasons?: Array<{ message: string }> } | null;
+      window.alert(`Export is not ready:\n${(body?.reasons ?? []).map((reason) => `- ${reason.message}`).join("\n")}`);
+    }
     const r = await fetch("/api/session", { credentials: "include" });
     if (r.ok) {
       const json = (await r.json()) as SessionResponse;
@@ -217,6 +236,45 @@ export default function Shell() {
     }
   }
 
+  async function reopenStage(stage: StageSlug) {
+    const reason = window.prompt(`Why reopen the ${stage} stage? Later stages will be unlocked and marked stale.`);
+    if (!reason?.trim()) return;
+    const res = await fetch(`/api/stages/${stage}/reopen`, {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason })
+    });
+    if (!res.ok) return;
+    const r = await fetch("/api/session", { credentials: "include" });
+    if (r.ok) {
+      const json = (await r.json()) as SessionResponse;
+      setSession(json);
+      setLocked(false);
+      const allowed = docsForStage(json.current_stage, json.docs);
+      setSelectedDoc(allowed[allowed.length - 1] ?? null);
+    }
+  }
+
+  async function regenerateDoc(name: DocName) {
+    setRegenerating(name);
+    try {
+      const res = await fetch(`/api/docs/${encodeURIComponent(name)}/regenerate`, {
+        method: "POST",
+        credentials: "include"
+      });
+      const r = await fetch("/api/session", { credentials: "include" });
+      if (r.ok) {
+        setSession((await r.json()) as SessionResponse);
+      }
+      if (res.ok && name === selectedDoc) {
+        void fetchDoc(name);
+      }
+    } finally {
+      setRegenerating(null);
+    }
+  }
+
   const handleStageReady = useCallback((stageName: string) => {
     if (!stageName) return;
     if (stageMeta.some((meta) => meta.slug === stageName)) {
@@ -227,6 +285,7 @@ export default function Shell() {
   const handleDocUpdated = useCallback(
     (docName: string) => {
       if (!docName) return;
+      setValidationRevision((prev) => prev + 1);
 
       // Refresh session to get updated docs list
       void fetch("/api/session", { credentials: "include" })
@@ -342,7 +401,22 @@ export default function Shell() {
                     >
                       {name}
                     </button>
-                    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${badgeTone[status]}`}>{status}</span>
+                    <div className="flex items-center gap-1">
+                      {session.stale_docs.includes(name) ? (
+                        <span
+                          data-testid={`doc-stale-${name}`}
+                          title={
+                            session.upstream_changed[name]
+                              ? `Upstream changed: ${session.upstream_changed[name].join(", ")}`
+                              : "An upstream stage was reopened; review this doc before approving again."
+                          }
+                          className="rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-semibold text-amber-700"
+                        >
+                          {session.upstream_changed[name] ? "Stale: upstream changed" : "Stale"}
+                        </span>
+                      ) : null}
+                      <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${badgeTone[status]}`}>{status}</span>
+                    </div>
                   </div>
                   <div className="mt-3 flex items-center gap-3 text-xs font-medium text-blue-600">
                     <button onClick={() => setSelectedDoc(name)} className="hover:underline">
@@ -354,12 +428,40 @@ export default function Shell() {
                     <button onClick={() => downloadDoc(name)} className="hover:underline">
                       Download
                     </button>
+                    {session.upstream_changed[name] && status !== "Approved" && !finalized ? (
+                      <button
+                        onClick={() => regenerateDoc(name)}
+                        disabled={regenerating !== null}
+                        data-testid={`doc-regenerate-${name}`}
+                        className="text-amber-700 hover:underline disabled:cursor-wait disabled:opacity-50"
+                      >
+                        {regenerating === name ? "Regenerating…" : "Regenerate"}
+                      </button>
+                    ) : null}
+                    {status === "Approved" && !finalized ? (
+                      <button
+                        onClick={() => reopenStage(docStageMap[name])}
+                        data-testid={`doc-reopen-${name}`}
+                        className="ml-auto text-amber-700 hover:underline"
+                      >
+                        Reopen
+                      </button>
+                    ) : null}
                   </div>
                 </li>
               );
             })}
           </ul>
           <p className="mt-6 text-xs text-slate-500">Only current and prior stage docs are visible.</p>
+          {allowedDocs.includes("prompt_plan.md") ? (
+            <PlanProgress
+              revision={docRevision}
+              readOnly={finalized}
+              onToggled={() => {
+                if (selectedDoc === "prompt_plan.md") void fetchDoc("prompt_plan.md");
+              }}
+            />
+          ) : null}
         </aside>
 
         <main className="flex flex-1 flex-col gap-6 bg-slate-50 px-8 py-8">
@@ -369,17 +471,29 @@ export default function Shell() {
                 <h1 className="text-2xl font-semibold text-slate-900">Stage: {stageLabel}</h1>
               </div>
               <div className="flex items-center gap-3">
-                <span className={`rounded-full px-3 py-1 text-xs font-semibold ${badgeTone[stageStatus]}`}>{stageStatus}</span>
+                {finalized ? (
+                  <span
+                    data-testid="session-finalized"
+                    title={`Finalized ${new Date(session.finalized_at ?? 0).toLocaleString()}; the session is read-only.`}
+                    className="rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700"
+                  >
+                    Finalized
+                  </span>
+                ) : (
+                  <span className={`rounded-full px-3 py-1 text-xs font-semibold ${badgeTone[stageStatus]}`}>{stageStatus}</span>
+                )}
                 <button
-                  disabled={stageStatus !== "Ready"}
+                  // Export has no chat turn to mark it ready; finalizing runs the consistency pass server-side
+                  disabled={finalized || (stageStatus !== "Ready" && session.current_stage !== "export")}
                   onClick={approveStage}
                   className="rounded-lg bg-slate-700 px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-300"
                 >
-                  Approve Stage
+                  {session.current_stage === "export" ? "Finalize" : "Approve Stage"}
                 </button>
               </div>
             </div>
             <div className="mt-4 space-y-4">
+              {!finalized ? <ReadinessChecklist stage={session.current_stage} revision={validationRevision} /> : null}
               <ChatPanel
                 stage={session.current_stage}
                 className=""
@@ -425,6 +539,15 @@ export default function Shell() {
                     >
                       Edit
                     </button>
+                    <button
+                      onClick={() => setDocView("changes")}
+                      data-testid="doc-tab-changes"
+                      className={`rounded-full px-3 py-1 font-medium ${
+                        docView === "changes" ? "bg-white shadow" : "text-slate-500"
+                      }`}
+                    >
+                      Changes
+                    </button>
                   </div>
                   <div className="flex items-center gap-3 text-xs font-semibold text-blue-600">
                     <button onClick={() => handleCopy(selectedDoc)} className="hover:underline">
@@ -451,6 +574,8 @@ export default function Shell() {
                     locked={docLocked}
                   />
                 </>
+              ) : docView === "changes" ? (
+                <DocDiffView name={selectedDoc} revision={docRevision} />
               ) : (
                 <MarkdownPreview content={docContent || ""} className="p-6" />
               )}
@@ -0,0 +1,13 @@
+CREATE TABLE `doc_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`name` text NOT NULL,
+	`content` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`author` text NOT NULL,
+	`stage` text,
+	`created_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`session_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `doc_versions_session_name_idx` ON `doc_versions` (`session_id`,`name`);
\ No newline at end of file
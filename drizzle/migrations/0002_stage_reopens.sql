@@ -0,0 +1,12 @@
+CREATE TABLE `stage_reopens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`stage` text NOT NULL,
+	`from_stage` text NOT NULL,
+	`reason` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`session_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `stage_reopens_session_idx` ON `stage_reopens` (`session_id`);--> statement-breakpoint
+ALTER TABLE `docs` ADD `stale` integer DEFAULT false NOT NULL;
\ No newline at end of file
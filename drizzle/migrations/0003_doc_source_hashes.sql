@@ -0,0 +1 @@
+ALTER TABLE `docs` ADD `source_hashes` text;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `graph_checkpoint_writes` (
+	`thread_id` text NOT NULL,
+	`checkpoint_ns` text DEFAULT '' NOT NULL,
+	`checkpoint_id` text NOT NULL,
+	`task_id` text NOT NULL,
+	`idx` integer NOT NULL,
+	`channel` text NOT NULL,
+	`type` text NOT NULL,
+	`value` blob NOT NULL,
+	PRIMARY KEY(`thread_id`, `checkpoint_ns`, `checkpoint_id`, `task_id`, `idx`)
+);
+--> statement-breakpoint
+CREATE TABLE `graph_checkpoints` (
+	`thread_id` text NOT NULL,
+	`checkpoint_ns` text DEFAULT '' NOT NULL,
+	`checkpoint_id` text NOT NULL,
+	`parent_checkpoint_id` text,
+	`type` text NOT NULL,
+	`checkpoint` blob NOT NULL,
+	`metadata` blob NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	PRIMARY KEY(`thread_id`, `checkpoint_ns`, `checkpoint_id`)
+);
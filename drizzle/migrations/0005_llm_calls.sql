@@ -0,0 +1,16 @@
+CREATE TABLE `llm_calls` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`stage` text,
+	`kind` text NOT NULL,
+	`model` text NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`latency_ms` integer NOT NULL,
+	`cost_usd` real,
+	`ok` integer DEFAULT true NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`session_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `llm_calls_session_stage_idx` ON `llm_calls` (`session_id`,`stage`);
\ No newline at end of file
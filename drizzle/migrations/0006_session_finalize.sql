@@ -0,0 +1,2 @@
+ALTER TABLE `sessions` ADD `finalized_at` integer;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `handoff` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `validation_warnings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`stage` text NOT NULL,
+	`code` text NOT NULL,
+	`severity` text NOT NULL,
+	`message` text NOT NULL,
+	`location` text,
+	`created_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`session_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `validation_warnings_session_stage_idx` ON `validation_warnings` (`session_id`,`stage`);
\ No newline at end of file
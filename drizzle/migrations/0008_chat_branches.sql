@@ -0,0 +1,7 @@
+ALTER TABLE `chat_messages` ADD `parent_id` integer;--> statement-breakpoint
+UPDATE `chat_messages` SET `parent_id` = (
+	SELECT max(`prev`.`id`) FROM `chat_messages` AS `prev`
+	WHERE `prev`.`session_id` = `chat_messages`.`session_id`
+		AND `prev`.`stage` IS `chat_messages`.`stage`
+		AND `prev`.`id` < `chat_messages`.`id`
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `chat_summaries` (
+	`session_id` text NOT NULL,
+	`stage` text NOT NULL,
+	`content` text NOT NULL,
+	`through_message_id` integer NOT NULL,
+	`updated_at` integer DEFAULT (strftime('%s','now') * 1000) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`session_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `chat_summaries_session_stage_idx` ON `chat_summaries` (`session_id`,`stage`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `chat_messages` ADD `prompt_id` text;--> statement-breakpoint
+ALTER TABLE `chat_messages` ADD `prompt_version` integer;--> statement-breakpoint
+ALTER TABLE `doc_versions` ADD `prompt_id` text;--> statement-breakpoint
+ALTER TABLE `doc_versions` ADD `prompt_version` integer;
\ No newline at end of file
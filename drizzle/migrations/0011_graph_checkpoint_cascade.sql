@@ -0,0 +1,6 @@
+-- Checkpoint thread ids are `${session_id}:${stage}`, so they cannot carry a foreign key; drop them with the session instead
+CREATE TRIGGER `sessions_delete_graph_checkpoints` AFTER DELETE ON `sessions`
+BEGIN
+	DELETE FROM `graph_checkpoint_writes` WHERE `thread_id` LIKE old.`session_id` || ':%';
+	DELETE FROM `graph_checkpoints` WHERE `thread_id` LIKE old.`session_id` || ':%';
+END;
@@ -4,6 +4,8 @@ type StreamEventHandlers = {
   onStageReady?: (stage: string) => void;
   onStageNeedsMore?: (payload: { stage?: string; reason?: string }) => void;
   onReconnect?: (attempt: number, delay: number) => void;
+  // A resume came too late to replay every missed event; `page` is the stored history to show instead
+  onHistoryReset?: (page: ChatHistoryPage) => void;
   onError?: (error: Error) => void;
   onComplete?: () => void;
 };
@@ -11,21 +13,39 @@ type StreamEventHandlers = {
 type StreamOptions = {
   message: string;
   stage: string;
+  // Stored message ids: `editOf` replaces a user message, `regenerateOf` redoes an assistant reply
+  editOf?: number;
+  regenerateOf?: number;
   signal?: AbortSignal;
   maxRetries?: number;
   handlers?: StreamEventHandlers;
 };
 
+export type ChatHistoryPage = {
+  messages: Array<{ id: number; parent_id: number | null; role: "user" | "assistant"; content: string; created_at: number }>;
+  next_cursor: string | null;
+};
+
+type StreamCursor = {
+  lastEventId?: number;
+  // Set by a stream.reset frame; the read loop reloads the history before going on
+  historyReset?: boolean;
+};
+
 const DEFAULT_MAX_RETRIES = 3;
 const BASE_DELAY_MS = 500;
+const REPLAY_CURSOR_HEADER = "X-Chat-Event-Cursor";
 
 export async function streamChat(options: StreamOptions) {
-  const { message, stage, signal, maxRetries = DEFAULT_MAX_RETRIES, handlers } = options;
+  const { message, stage, editOf, regenerateOf, signal, maxRetries = DEFAULT_MAX_RETRIES, handlers } = options;
+  // Once the server has accepted the message, retries resume from the last seen event id
+  // instead of posting the message again.
+  const cursor: StreamCursor = {};
   let attempt = 0;
 
   while (attempt <= maxRetries) {
     try {
-      await runStream({ message, stage, signal, handlers });
+      await runStream({ message, stage, editOf, regenerateOf, signal, handlers, cursor });
       handlers?.onComplete?.();
       return;
     } catch (error) {
@@ -52,29 +72,57 @@ export async function streamChat(options: StreamOptions) {
   }
 }
 
+/**
+ * Stops the session's running turn on the server. Aborting `streamChat` alone only drops the
+ * connection, which the server treats as a network hiccup and keeps generating for replay.
+ * Resolves once the server has released the turn, so the next message is not rejected with 429.
+ */
+export async function cancelChat() {
+  const response = await fetch("/api/chat", { method: "DELETE", credentials: "include" });
+  if (!response.ok) {
+    const error = new Error(`CHAT_CANCEL_FAILED(${response.status})`);
+    (error as any).status = response.status;
+    throw error;
+  }
+}
+
 async function runStream({
   message,
   stage,
+  editOf,
+  regenerateOf,
   signal,
-  handlers
+  handlers,
+  cursor
 }: {
   message: string;
   stage: string;
+  editOf?: number;
+  regenerateOf?: number;
   signal?: AbortSignal;
   handlers?: StreamEventHandlers;
+  cursor: StreamCursor;
 }) {
   const controller = new AbortController();
   const combinedSignal = signal
     ? mergeSignals(signal, controller.signal)
     : controller.signal;
 
-  const response = await fetch("/api/chat", {
-    method: "POST",
-    credentials: "include",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ message, stage }),
-    signal: combinedSignal
-  });
+  const resuming = cursor.lastEventId !== undefined;
+  const response = resuming
+    ? await fetch("/api/chat", {
+        method: "GET",
+        credentials: "include",
+        headers: { "Last-Event-ID": String(cursor.lastEventId) },
+        signal: combinedSignal
+      })
+    : await fetch("/api/chat", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, stage, edit_of: editOf, regenerate_of: regenerateOf }),
+        signal: combinedSignal
+      });
 
   if (!response.ok) {
     const errorBody = await response.text().catch(() => "");
@@ -86,6 +134,13 @@ async function runStream({
     throw error;
   }
 
+  if (!resuming) {
+    const start = Number(response.headers.get(REPLAY_CURSOR_HEADER));
+    if (Number.isFinite(start)) {
+      cursor.lastEventId = start;
+    }
+  }
+
   if (!response.body) {
     throw new Error("STREAM_NOT_SUPPORTED");
   }
@@ -98,18 +153,35 @@ async function runStream({
     const { done, value } = await reader.read();
     if (done) break;
     buffer += decoder.decode(value, { stream: true });
-    buffer = processBuffer(buffer, handlers);
+    buffer = processBuffer(buffer, cursor, handlers);
+    if (cursor.historyReset) {
+      cursor.historyReset = false;
+      await reloadHistory(stage, combinedSignal, handlers);
+    }
+  }
+}
+
+async function reloadHistory(stage: string, signal: AbortSignal, handlers?: StreamEventHandlers) {
+  const response = await fetch(`/api/chat/history?${new URLSearchParams({ stage }).toString()}`, {
+    credentials: "include",
+    signal
+  });
+  if (!response.ok) {
+    const error = new Error(`CHAT_HISTORY_FAILED(${response.status})`);
+    (error as any).status = response.status;
+    throw error;
   }
+  handlers?.onHistoryReset?.((await response.json()) as ChatHistoryPage);
 }
 
-function processBuffer(buffer: string, handlers?: StreamEventHandlers) {
+function processBuffer(buffer: string, cursor: StreamCursor, handlers?: StreamEventHandlers) {
   let remainder = buffer;
   let idx: number;
 
   while ((idx = remainder.indexOf("\n\n")) !== -1) {
     const raw = remainder.slice(0, idx);
     remainder = remainder.slice(idx + 2);
-    handleEvent(raw, handlers);
+    handleEvent(raw, cursor, handlers);
   }
 
   return remainder;
@@ -122,13 +194,21 @@ export function parseSSEPayload(payload: string) {
   if (dataMatches.length === 0) return undefined;
   const eventName = eventMatch[1]?.trim();
   const data = dataMatches.map((match) => match[1] ?? "").join("\n");
-  return { eventName, data };
+  const idMatch = payload.match(/^id:\s*(\d+)\s*$/m);
+  const id = idMatch ? Number(idMatch[1]) : undefined;
+  return { eventName, data, id };
 }
 
-function handleEvent(payload: string, handlers?: StreamEventHandlers) {
+function handleEvent(payload: string, cursor: StreamCursor, handlers?: StreamEventHandlers) {
   const parsed = parseSSEPayload(payload);
   if (!parsed) return;
-  const { eventName, data } = parsed;
+  const { eventName, data, id } = parsed;
+  if (id !== undefined) {
+    if (cursor.lastEventId !== undefined && id <= cursor.lastEventId) {
+      return;
+    }
+    cursor.lastEventId = id;
+  }
 
   switch (eventName) {
     case "assistant.delta": {
@@ -143,6 +223,10 @@ function handleEvent(payload: string, handlers?: StreamEventHandlers) {
       handlers?.onStageReady?.(data.trim());
       break;
     }
+    case "stream.reset": {
+      cursor.historyReset = true;
+      break;
+    }
     case "stage.needs_more": {
       let parsed: { stage?: string; reason?: string } = {};
       try {
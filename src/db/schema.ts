@@ -3,6 +3,7 @@ import {
   index,
   integer,
   primaryKey,
+  real,
   sqliteTable,
   text,
   uniqueIndex,
@@ -15,12 +16,29 @@ export type StageName = (typeof stageNames)[number];
 export const docNames = ["idea_one_pager.md", "spec.md", "prompt_plan.md", "AGENTS.md"] as const;
 export type DocName = (typeof docNames)[number];
 
+export type DocSourceHashes = Partial<Record<DocName, string>>;
+
 export const chatRoles = ["user", "assistant", "orchestrator"] as const;
 export type ChatRole = (typeof chatRoles)[number];
 
+export const docVersionAuthors = ["user", "stage_writer", "restore"] as const;
+export type DocVersionAuthor = (typeof docVersionAuthors)[number];
+
+export const llmCallKinds = ["generation", "validation", "chat"] as const;
+export type LlmCallKind = (typeof llmCallKinds)[number];
+
+export const validationSeverities = ["error", "warning", "info"] as const;
+export type ValidationSeverity = (typeof validationSeverities)[number];
+
+/** Where in the docs a validation reason points; `section` is the heading it concerns, when known. */
+export type ValidationLocation = { doc: DocName; section?: string };
+
 const stageEnum = { enum: stageNames };
 const docEnum = { enum: docNames };
 const chatRoleEnum = { enum: chatRoles };
+const docVersionAuthorEnum = { enum: docVersionAuthors };
+const llmCallKindEnum = { enum: llmCallKinds };
+const validationSeverityEnum = { enum: validationSeverities };
 
 export const sessions = sqliteTable(
   "sessions",
@@ -37,7 +55,11 @@ export const sessions = sqliteTable(
       .notNull(),
     lastActivity: integer("last_activity", { mode: "number" })
       .default(sql`(strftime('%s','now') * 1000)`)
-      .notNull()
+      .notNull(),
+    // Set once the export stage is approved; the session is read-only from then on
+    finalizedAt: integer("finalized_at", { mode: "number" }),
+    // HANDOFF.md release summary written by the export stage and shipped in the bundle
+    handoff: text("handoff")
   },
   (table) => ({
     stageIndex: index("sessions_stage_idx").on(table.currentStage),
@@ -54,6 +76,8 @@ export const docs = sqliteTable(
     name: text("name", docEnum).notNull(),
     content: text("content").notNull(),
     approved: integer("approved", { mode: "boolean" }).default(false).notNull(),
+    stale: integer("stale", { mode: "boolean" }).default(false).notNull(),
+    sourceHashes: text("source_hashes", { mode: "json" }).$type<DocSourceHashes>(),
     updatedAt: integer("updated_at", { mode: "number" })
       .default(sql`(strftime('%s','now') * 1000)`)
       .notNull()
@@ -63,6 +87,71 @@ export const docs = sqliteTable(
   })
 );
 
+export const stageReopens = sqliteTable(
+  "stage_reopens",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.sessionId, { onDelete: "cascade" }),
+    stage: text("stage", stageEnum).notNull(),
+    fromStage: text("from_stage", stageEnum).notNull(),
+    reason: text("reason").notNull(),
+    createdAt: integer("created_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    sessionIndex: index("stage_reopens_session_idx").on(table.sessionId)
+  })
+);
+
+// Non-blocking validation reasons (warnings and infos) recorded when a stage is approved
+export const validationWarnings = sqliteTable(
+  "validation_warnings",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.sessionId, { onDelete: "cascade" }),
+    stage: text("stage", stageEnum).notNull(),
+    code: text("code").notNull(),
+    severity: text("severity", validationSeverityEnum).notNull(),
+    message: text("message").notNull(),
+    location: text("location", { mode: "json" }).$type<ValidationLocation>(),
+    createdAt: integer("created_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    sessionStageIndex: index("validation_warnings_session_stage_idx").on(table.sessionId, table.stage)
+  })
+);
+
+export const docVersions = sqliteTable(
+  "doc_versions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.sessionId, { onDelete: "cascade" }),
+    name: text("name", docEnum).notNull(),
+    content: text("content").notNull(),
+    contentHash: text("content_hash").notNull(),
+    author: text("author", docVersionAuthorEnum).notNull(),
+    stage: text("stage", stageEnum),
+    // Prompt template (and its version) a stage writer drafted this version with
+    promptId: text("prompt_id"),
+    promptVersion: integer("prompt_version"),
+    createdAt: integer("created_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    sessionDocIndex: index("doc_versions_session_name_idx").on(table.sessionId, table.name)
+  })
+);
+
 export const chatMessages = sqliteTable(
   "chat_messages",
   {
@@ -73,6 +162,11 @@ export const chatMessages = sqliteTable(
     stage: text("stage", stageEnum),
     role: text("role", chatRoleEnum).notNull(),
     content: text("content").notNull(),
+    // Previous message on the same branch; edits and regenerations fork by sharing a parent
+    parentId: integer("parent_id"),
+    // Prompt template (and its version) the reply was generated with; null for user messages
+    promptId: text("prompt_id"),
+    promptVersion: integer("prompt_version"),
     createdAt: integer("created_at", { mode: "number" })
       .default(sql`(strftime('%s','now') * 1000)`)
       .notNull()
@@ -83,6 +177,49 @@ export const chatMessages = sqliteTable(
   })
 );
 
+export const chatSummaries = sqliteTable(
+  "chat_summaries",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.sessionId, { onDelete: "cascade" }),
+    stage: text("stage", stageEnum).notNull(),
+    content: text("content").notNull(),
+    // Newest message folded into the summary; it is only reused while that message is on the active branch
+    throughMessageId: integer("through_message_id").notNull(),
+    updatedAt: integer("updated_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    uniqSummary: uniqueIndex("chat_summaries_session_stage_idx").on(table.sessionId, table.stage)
+  })
+);
+
+export const llmCalls = sqliteTable(
+  "llm_calls",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.sessionId, { onDelete: "cascade" }),
+    stage: text("stage", stageEnum),
+    kind: text("kind", llmCallKindEnum).notNull(),
+    model: text("model").notNull(),
+    inputTokens: integer("input_tokens").default(0).notNull(),
+    outputTokens: integer("output_tokens").default(0).notNull(),
+    latencyMs: integer("latency_ms").notNull(),
+    costUsd: real("cost_usd"),
+    ok: integer("ok", { mode: "boolean" }).default(true).notNull(),
+    createdAt: integer("created_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    sessionStageIndex: index("llm_calls_session_stage_idx").on(table.sessionId, table.stage)
+  })
+);
+
 export const designs = sqliteTable(
   "designs",
   {
@@ -100,3 +237,43 @@ export const designs = sqliteTable(
     shaIndex: index("designs_sha_idx").on(table.sha256)
   })
 );
+
+// LangGraph checkpoint storage; thread ids are `${sessionId}:${stage}` (see runStage). Rows go with
+// their session through the sessions_delete_graph_checkpoints trigger (migration 0011)
+export const graphCheckpoints = sqliteTable(
+  "graph_checkpoints",
+  {
+    threadId: text("thread_id").notNull(),
+    checkpointNs: text("checkpoint_ns").default("").notNull(),
+    checkpointId: text("checkpoint_id").notNull(),
+    parentCheckpointId: text("parent_checkpoint_id"),
+    type: text("type").notNull(),
+    checkpoint: blob("checkpoint", { mode: "buffer" }).notNull(),
+    metadata: blob("metadata", { mode: "buffer" }).notNull(),
+    createdAt: integer("created_at", { mode: "number" })
+      .default(sql`(strftime('%s','now') * 1000)`)
+      .notNull()
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.threadId, table.checkpointNs, table.checkpointId] })
+  })
+);
+
+export const graphCheckpointWrites = sqliteTable(
+  "graph_checkpoint_writes",
+  {
+    threadId: text("thread_id").notNull(),
+    checkpointNs: text("checkpoint_ns").default("").notNull(),
+    checkpointId: text("checkpoint_id").notNull(),
+    taskId: text("task_id").notNull(),
+    idx: integer("idx").notNull(),
+    channel: text("channel").notNull(),
+    type: text("type").notNull(),
+    value: blob("value", { mode: "buffer" }).notNull()
+  },
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.threadId, table.checkpointNs, table.checkpointId, table.taskId, table.idx]
+    })
+  })
+);
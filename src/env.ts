@@ -36,6 +36,16 @@ const optionalBoolean = () =>
     return normalized;
   }, z.boolean().optional());
 
+const optionalPositiveInt = (name: string) =>
+  z.preprocess(emptyToUndefined, z.string().optional()).transform((value) => {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+  });
+
 const envSchema = z.object({
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
   HOST: optionalString(),
@@ -56,9 +66,18 @@ const envSchema = z.object({
   OPENAI_API_KEY: optionalString(),
   OPENAI_API_BASE: optionalUrl(),
   OPENAI_MODEL: optionalString(),
+  LLM_PROVIDER: z.preprocess(emptyToUndefined, z.enum(["openai", "openai-compatible", "fixture"]).optional()),
+  LLM_FIXTURES_PATH: optionalString(),
+  LLM_CASSETTE_PATH: optionalString(),
+  LLM_CASSETTE_MODE: z.preprocess(emptyToUndefined, z.enum(["record", "replay"]).optional()),
   TURSO_DATABASE_URL: optionalUrl(),
   TURSO_AUTH_TOKEN: optionalString(),
-  SESSION_COOKIE_SECURE: optionalBoolean()
+  SESSION_COOKIE_SECURE: optionalBoolean(),
+  SEMANTIC_VALIDATION: optionalBoolean(),
+  VALIDATION_RULES_PATH: optionalString(),
+  STAGE_TOKEN_BUDGET: optionalPositiveInt("STAGE_TOKEN_BUDGET"),
+  CHAT_CONTEXT_TOKENS: optionalPositiveInt("CHAT_CONTEXT_TOKENS"),
+  PROMPTS_PATH: optionalString()
 });
 
 export type AppEnv = z.infer<typeof envSchema>;
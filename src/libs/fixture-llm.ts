@@ -0,0 +1,85 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { estimateTokens } from "../services/chat-context";
+import type { LlmInput, LlmProvider, LlmStreamChunk } from "./llm";
+
+export const FIXTURE_MODEL = "fixture";
+const DEFAULT_FIXTURE_TEXT = "This is an offline fixture response. No recorded response matched the request.";
+
+export type LlmFixture = {
+  /** Substring looked up in the flattened request input; omit to match every request. */
+  match?: string;
+  text: string;
+};
+
+export type LlmFixtureFile = {
+  responses?: LlmFixture[];
+  default?: string;
+};
+
+export type FixtureProviderOptions = {
+  /** JSON file shaped like LlmFixtureFile; ignored when `fixtures` is given. */
+  path?: string;
+  fixtures?: LlmFixtureFile;
+};
+
+/**
+ * Deterministic offline provider for local development and CI. Each request is answered with the
+ * first fixture whose `match` appears in the input (in file order), falling back to the default
+ * text. Token usage is estimated from text length so budgets and accounting still behave.
+ */
+export function createFixtureProvider(options: FixtureProviderOptions = {}): LlmProvider {
+  const fixtures = options.fixtures ?? (options.path ? loadFixtureFile(options.path) : {});
+
+  const respond = (input: LlmInput) => {
+    const prompt = flattenInput(input);
+    const fixture = fixtures.responses?.find((entry) => !entry.match || prompt.includes(entry.match));
+    const text = fixture?.text ?? fixtures.default ?? DEFAULT_FIXTURE_TEXT;
+    return {
+      text,
+      usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) }
+    };
+  };
+
+  return {
+    name: "fixture",
+    model: FIXTURE_MODEL,
+
+    async complete({ input }) {
+      return respond(input);
+    },
+
+    async *stream({ input, abortSignal }): AsyncGenerator<LlmStreamChunk> {
+      const { text, usage } = respond(input);
+      // Word-sized deltas keep the client's incremental rendering path exercised
+      for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+        abortSignal?.throwIfAborted();
+        yield { type: "delta", text: delta };
+      }
+      yield { type: "usage", usage };
+    }
+  };
+}
+
+export function flattenInput(input: LlmInput): string {
+  if (typeof input === "string") return input;
+  if (!Array.isArray(input)) return "";
+  return input
+    .map((item) => {
+      const content = (item as { content?: unknown }).content;
+      if (typeof content === "string") return content;
+      if (Array.isArray(content)) {
+        return content
+          .map((part) => (typeof part?.text === "string" ? part.text : ""))
+          .filter(Boolean)
+          .join("\n");
+      }
+      return "";
+    })
+    .join("\n");
+}
+
+function loadFixtureFile(filePath: string): LlmFixtureFile {
+  const resolved = path.resolve(process.cwd(), filePath);
+  return JSON.parse(readFileSync(resolved, "utf8")) as LlmFixtureFile;
+}
@@ -0,0 +1,140 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { LlmCompletion, LlmInput, LlmProvider, LlmRequest, LlmStreamChunk } from "./llm";
+import type { LlmUsage } from "../services/llm-usage";
+import { sha256String } from "../utils/export";
+
+export const cassetteModes = ["record", "replay"] as const;
+export type CassetteMode = (typeof cassetteModes)[number];
+
+export type CassetteEntry = {
+  request: { model: string; temperature: number; input: LlmInput };
+  response: {
+    text: string;
+    usage?: LlmUsage;
+    /** Streamed deltas in arrival order, so replays reproduce the original chunking. */
+    deltas?: string[];
+  };
+};
+
+export type Cassette = {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+};
+
+export type CassetteOptions = {
+  path: string;
+  mode: CassetteMode;
+};
+
+export class CassetteMissError extends Error {
+  constructor(public readonly key: string, cassettePath: string) {
+    super(
+      `No recorded LLM response for request ${key} in ${cassettePath}. ` +
+        "The prompt, model, or temperature changed since it was recorded; re-record with LLM_CASSETTE_MODE=record."
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Wraps a provider with a JSON cassette. In record mode every call goes to the wrapped provider
+ * and its response is written to the cassette; in replay mode responses come from the cassette
+ * only and an unrecorded request throws CassetteMissError, so prompt changes surface in tests.
+ */
+export function withCassette(provider: LlmProvider, options: CassetteOptions): LlmProvider {
+  const cassettePath = path.resolve(process.cwd(), options.path);
+  const cassette = loadCassette(cassettePath);
+
+  const record = (key: string, request: LlmRequest, response: CassetteEntry["response"]) => {
+    cassette.entries[key] = {
+      request: { model: provider.model, temperature: request.temperature, input: request.input },
+      response
+    };
+    saveCassette(cassettePath, cassette);
+  };
+
+  const lookup = (key: string) => {
+    const entry = cassette.entries[key];
+    if (!entry) {
+      throw new CassetteMissError(key, cassettePath);
+    }
+    return entry.response;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    async complete(request): Promise<LlmCompletion> {
+      const key = cassetteKey({ ...request, model: provider.model });
+      if (options.mode === "replay") {
+        const { text, usage } = lookup(key);
+        return { text, usage };
+      }
+
+      const completion = await provider.complete(request);
+      record(key, request, { text: completion.text, usage: completion.usage });
+      return completion;
+    },
+
+    async *stream(request): AsyncGenerator<LlmStreamChunk> {
+      const key = cassetteKey({ ...request, model: provider.model });
+      if (options.mode === "replay") {
+        const { text, usage, deltas } = lookup(key);
+        for (const delta of deltas ?? [text]) {
+          yield { type: "delta", text: delta };
+        }
+        if (usage) {
+          yield { type: "usage", usage };
+        }
+        return;
+      }
+
+      const deltas: string[] = [];
+      let usage: LlmUsage | undefined;
+      for await (const chunk of provider.stream(request)) {
+        if (chunk.type === "delta") {
+          deltas.push(chunk.text);
+        } else {
+          usage = chunk.usage;
+        }
+        yield chunk;
+      }
+      // Only completed streams are recorded; a failed or aborted one would replay as truncated output
+      record(key, request, { text: deltas.join(""), usage, deltas });
+    }
+  };
+}
+
+/** Stable identity of a request: the same input, model, and temperature always hash to the same key. */
+export function cassetteKey({ input, model, temperature }: { input: LlmInput; model: string; temperature: number }) {
+  return sha256String(stableStringify({ input, model, temperature }));
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function loadCassette(cassettePath: string): Cassette {
+  if (!existsSync(cassettePath)) {
+    return { version: 1, entries: {} };
+  }
+  return JSON.parse(readFileSync(cassettePath, "utf8")) as Cassette;
+}
+
+function saveCassette(cassettePath: string, cassette: Cassette) {
+  mkdirSync(path.dirname(cassettePath), { recursive: true });
+  const entries = Object.fromEntries(Object.entries(cassette.entries).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(cassettePath, `${JSON.stringify({ ...cassette, entries }, null, 2)}\n`);
+}
@@ -0,0 +1,179 @@
+import type { Responses } from "openai/resources/responses";
+import { env } from "../env";
+import type { LlmCallKind, StageName } from "../db/schema";
+import { recordLlmCall, type LlmUsage } from "../services/llm-usage";
+import { createFixtureProvider } from "./fixture-llm";
+import { withCassette } from "./llm-cassette";
+import { createOpenAIProvider } from "./openai";
+
+const GENERATION_TEMPERATURE = 0.2;
+const VALIDATION_TEMPERATURE = 0.0;
+
+export const llmProviderNames = ["openai", "openai-compatible", "fixture"] as const;
+export type LlmProviderName = (typeof llmProviderNames)[number];
+
+/** Responses API-style input: a plain prompt or a list of role/content messages. */
+export type LlmInput = Parameters<Responses["create"]>[0]["input"];
+
+export type LlmRequest = {
+  input: LlmInput;
+  temperature: number;
+  abortSignal?: AbortSignal;
+};
+
+export type LlmCompletion = {
+  text: string;
+  usage?: LlmUsage;
+};
+
+export type LlmStreamChunk = { type: "delta"; text: string } | { type: "usage"; usage: LlmUsage };
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  /** Yields text deltas as they arrive, then a usage chunk when the provider reports one. */
+  stream(request: LlmRequest): AsyncGenerator<LlmStreamChunk>;
+}
+
+/** Attributes a call to a session (and stage) so its tokens, latency and cost land in llm_calls. */
+export type LlmCallContext = {
+  sessionId: string;
+  stage?: StageName | null;
+  /** Runs before the provider is called; throwing refuses the call, e.g. once a budget is spent. */
+  beforeCall?: () => void;
+  /** Receives token usage once the call completes, e.g. to charge a stage's token budget. */
+  onUsage?: (usage: LlmUsage) => void;
+};
+
+export type LlmCallOptions = {
+  input: LlmInput;
+  abortSignal?: AbortSignal;
+  context?: LlmCallContext;
+};
+
+let provider: LlmProvider | undefined;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER. Without it, OPENAI_API_BASE selects an
+ * OpenAI-compatible server and everything else goes to OpenAI. Providers are created on first
+ * use so a missing key only fails the calls that need it, not every import. LLM_CASSETTE_PATH
+ * wraps the provider in a record/replay cassette (see llm-cassette.ts).
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const base = createProvider(env.LLM_PROVIDER ?? (env.OPENAI_API_BASE ? "openai-compatible" : "openai"));
+    provider = env.LLM_CASSETTE_PATH
+      ? withCassette(base, { path: env.LLM_CASSETTE_PATH, mode: env.LLM_CASSETTE_MODE ?? "replay" })
+      : base;
+  }
+  return provider;
+}
+
+/** Swaps the active provider, e.g. for a cassette in tests. Pass undefined to go back to the env default. */
+export function setLlmProvider(next: LlmProvider | undefined) {
+  provider = next;
+}
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider({ path: env.LLM_FIXTURES_PATH });
+    case "openai-compatible":
+      if (!env.OPENAI_API_BASE) {
+        throw new Error("OPENAI_API_BASE is required for the openai-compatible LLM provider.");
+      }
+      return createOpenAIProvider({
+        name,
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_API_BASE,
+        model: env.OPENAI_MODEL
+      });
+    case "openai":
+      return createOpenAIProvider({
+        name,
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_API_BASE,
+        model: env.OPENAI_MODEL
+      });
+  }
+}
+
+export async function generateResponse(options: LlmCallOptions) {
+  return complete(options, GENERATION_TEMPERATURE, "generation");
+}
+
+export async function validateResponse(options: LlmCallOptions) {
+  return complete(options, VALIDATION_TEMPERATURE, "validation");
+}
+
+/**
+ * Streams a generation request and yields output text deltas as they arrive.
+ * Provider errors (including mid-stream failures) are surfaced as thrown errors.
+ */
+export async function* streamResponse({ input, abortSignal, context }: LlmCallOptions): AsyncGenerator<string> {
+  context?.beforeCall?.();
+  const llm = getLlmProvider();
+  const startedAt = Date.now();
+  let usage: LlmUsage | undefined;
+  let completed = false;
+
+  try {
+    for await (const chunk of llm.stream({ input, abortSignal, temperature: GENERATION_TEMPERATURE })) {
+      if (chunk.type === "delta") {
+        if (chunk.text) {
+          yield chunk.text;
+        }
+      } else {
+        usage = chunk.usage;
+      }
+    }
+    completed = true;
+  } finally {
+    await trackUsage(llm, context, "chat", startedAt, usage, completed);
+  }
+}
+
+async function complete(
+  { input, abortSignal, context }: LlmCallOptions,
+  temperature: number,
+  kind: LlmCallKind
+): Promise<LlmCompletion> {
+  context?.beforeCall?.();
+  const llm = getLlmProvider();
+  const startedAt = Date.now();
+  let completion: LlmCompletion | undefined;
+  try {
+    completion = await llm.complete({ input, abortSignal, temperature });
+    return completion;
+  } finally {
+    await trackUsage(llm, context, kind, startedAt, completion?.usage, completion !== undefined);
+  }
+}
+
+async function trackUsage(
+  llm: LlmProvider,
+  context: LlmCallContext | undefined,
+  kind: LlmCallKind,
+  startedAt: number,
+  usage: LlmUsage | undefined,
+  ok: boolean
+) {
+  const tokens: LlmUsage = {
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0
+  };
+  context?.onUsage?.(tokens);
+  if (!context?.sessionId) return;
+
+  // Accounting is best-effort and must never fail the call it describes
+  await recordLlmCall({
+    sessionId: context.sessionId,
+    stage: context.stage,
+    kind,
+    model: llm.model,
+    latencyMs: Date.now() - startedAt,
+    ok,
+    ...tokens
+  }).catch(() => undefined);
+}
@@ -1,58 +1,110 @@
 import OpenAI from "openai";
-import type { Responses } from "openai/resources/responses";
-import { env } from "../env";
+import type { ResponseUsage } from "openai/resources/responses/responses";
+import type { LlmUsage } from "../services/llm-usage";
+import type { LlmProvider, LlmProviderName, LlmRequest, LlmStreamChunk } from "./llm";
 
 const DEFAULT_MODEL = "gpt-4o-mini";
-const GENERATION_TEMPERATURE = 0.2;
-const VALIDATION_TEMPERATURE = 0.0;
 const REQUEST_TIMEOUT_MS = 20_000;
+// Local OpenAI-compatible servers usually ignore the key, but the SDK refuses to start without one
+const LOCAL_PLACEHOLDER_KEY = "not-needed";
 
-export type OpenAIResponseInput = Parameters<Responses["create"]>[0]["input"];
+export type OpenAIProviderOptions = {
+  name: Extract<LlmProviderName, "openai" | "openai-compatible">;
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+};
 
-const model = env.OPENAI_MODEL ?? DEFAULT_MODEL;
-const apiKey = env.OPENAI_API_KEY;
+/**
+ * Responses API provider for OpenAI itself and for any server exposing the same API
+ * (vLLM, Ollama, LM Studio, ...) at OPENAI_API_BASE.
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LlmProvider {
+  const model = options.model ?? DEFAULT_MODEL;
+  let client: OpenAI | undefined;
 
-if (!apiKey) {
-  throw new Error("OPENAI_API_KEY is required to call OpenAI APIs.");
-}
+  const getClient = () => {
+    if (!client) {
+      const apiKey = options.apiKey ?? (options.name === "openai-compatible" ? LOCAL_PLACEHOLDER_KEY : undefined);
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is required to call OpenAI APIs.");
+      }
+      client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    }
+    return client;
+  };
 
-const client = new OpenAI({
-  apiKey,
-  baseURL: env.OPENAI_API_BASE
-});
+  return {
+    name: options.name,
+    model,
 
-export type OpenAIResponseOptions = {
-  input: OpenAIResponseInput;
-  abortSignal?: AbortSignal;
-};
+    async complete({ input, temperature, abortSignal }: LlmRequest) {
+      const response = await getClient().responses.create(
+        {
+          model,
+          temperature,
+          input,
+          stream: false
+        },
+        {
+          signal: abortSignal,
+          timeout: REQUEST_TIMEOUT_MS
+        }
+      );
+      return { text: response.output_text ?? "", usage: toUsage(response.usage) };
+    },
 
-export async function generateResponse(options: OpenAIResponseOptions) {
-  return callResponsesApi({ ...options, temperature: GENERATION_TEMPERATURE });
-}
+    async *stream({ input, temperature, abortSignal }: LlmRequest): AsyncGenerator<LlmStreamChunk> {
+      const stream = await getClient().responses.create(
+        {
+          model,
+          temperature,
+          input,
+          stream: true
+        },
+        {
+          signal: abortSignal,
+          timeout: REQUEST_TIMEOUT_MS
+        }
+      );
 
-export async function validateResponse(options: OpenAIResponseOptions) {
-  return callResponsesApi({ ...options, temperature: VALIDATION_TEMPERATURE });
+      for await (const event of stream) {
+        switch (event.type) {
+          case "response.output_text.delta":
+            if (event.delta) {
+              yield { type: "delta", text: event.delta };
+            }
+            break;
+          case "response.completed": {
+            const usage = toUsage(event.response.usage);
+            if (usage) {
+              yield { type: "usage", usage };
+            }
+            break;
+          }
+          case "error":
+            throw new OpenAIStreamError(event.message, event.code ?? undefined);
+          case "response.failed":
+            throw new OpenAIStreamError(
+              event.response.error?.message ?? "Response failed",
+              event.response.error?.code ?? undefined
+            );
+          default:
+            break;
+        }
+      }
+    }
+  };
 }
 
-export function createAbortController() {
-  return new AbortController();
+export class OpenAIStreamError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = "OpenAIStreamError";
+  }
 }
 
-async function callResponsesApi({
-  input,
-  abortSignal,
-  temperature
-}: OpenAIResponseOptions & { temperature: number }) {
-  return client.responses.create(
-    {
-      model,
-      temperature,
-      input,
-      stream: false
-    },
-    {
-      signal: abortSignal,
-      timeout: REQUEST_TIMEOUT_MS
-    }
-  );
+function toUsage(usage?: ResponseUsage | null): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens ?? 0, outputTokens: usage.output_tokens ?? 0 };
 }
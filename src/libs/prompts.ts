@@ -0,0 +1,172 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { env } from "../env";
+
+export const promptIds = [
+  "chat.intake",
+  "chat.spec",
+  "chat.design",
+  "chat.prompt_plan",
+  "chat.agents",
+  "chat.summary",
+  "chat.summary_prefix",
+  "writer.intake",
+  "writer.spec",
+  "writer.spec.compile",
+  "writer.design",
+  "writer.prompt_plan",
+  "writer.agents",
+  "writer.agents.responsibility",
+  "validator.semantic"
+] as const;
+export type PromptId = (typeof promptIds)[number];
+
+/** Variables each template may use; the callers pass exactly these to renderPrompt. */
+export const promptVariables: Record<PromptId, readonly string[]> = {
+  "chat.intake": ["ready_flag"],
+  "chat.spec": ["idea_doc", "ready_flag"],
+  "chat.design": ["spec_doc", "ready_flag"],
+  "chat.prompt_plan": ["spec_doc", "plan_doc", "design_files", "ready_flag"],
+  "chat.agents": ["idea_doc", "spec_doc", "plan_doc", "ready_flag"],
+  "chat.summary": [],
+  "chat.summary_prefix": ["summary"],
+  "writer.intake": [],
+  "writer.spec": [],
+  "writer.spec.compile": [],
+  "writer.design": [],
+  "writer.prompt_plan": [],
+  "writer.agents": [],
+  "writer.agents.responsibility": [],
+  "validator.semantic": ["doc_name", "criteria"]
+};
+
+export type PromptTemplate = {
+  id: PromptId;
+  version: number;
+  body: string;
+  /** File the template was read from, for error messages. */
+  source: string;
+};
+
+/** Identifies the exact template text a model call or doc came from. */
+export type PromptRef = {
+  id: PromptId;
+  version: number;
+};
+
+export type RenderedPrompt = PromptRef & {
+  text: string;
+};
+
+export type PromptTemplates = Record<PromptId, PromptTemplate>;
+
+const BUNDLED_PROMPTS_DIR = "prompts";
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}/gi;
+
+let cachedTemplates: PromptTemplates | undefined;
+
+/**
+ * Templates for every prompt id: the bundled `prompts/` directory, with any `<id>.md` file in
+ * the PROMPTS_PATH directory replacing the bundled template of that id. Loaded once per process;
+ * an unknown id or a malformed template throws so a misnamed override is never silently ignored.
+ */
+export function getPromptTemplates(): PromptTemplates {
+  if (!cachedTemplates) {
+    cachedTemplates = loadPromptTemplates(env.PROMPTS_PATH);
+  }
+  return cachedTemplates;
+}
+
+export function loadPromptTemplates(overridesDir?: string): PromptTemplates {
+  const bundled = readTemplateDir(path.resolve(process.cwd(), BUNDLED_PROMPTS_DIR));
+  const missing = promptIds.filter((id) => !bundled.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Missing bundled prompt templates: ${missing.join(", ")}`);
+  }
+
+  const overrides = overridesDir ? readTemplateDir(path.resolve(process.cwd(), overridesDir)) : new Map();
+  return Object.fromEntries(
+    promptIds.map((id) => [id, overrides.get(id) ?? bundled.get(id)!])
+  ) as PromptTemplates;
+}
+
+/**
+ * Parses a template file: a `---` front matter block with a positive integer `version`
+ * (other keys, like `description`, are documentation), followed by the template body. The body
+ * may only use the placeholders listed for its id in `promptVariables`.
+ */
+export function parsePromptTemplate(id: PromptId, raw: string, source: string): PromptTemplate {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(raw);
+  if (!match) {
+    throw new Error(`Invalid prompt template in ${source}: missing front matter`);
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    fields.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+  }
+
+  const version = Number(fields.get("version"));
+  if (!Number.isInteger(version) || version <= 0) {
+    throw new Error(`Invalid prompt template in ${source}: version must be a positive integer`);
+  }
+
+  const body = match[2].replace(/\s+$/, "");
+  if (!body) {
+    throw new Error(`Invalid prompt template in ${source}: body is empty`);
+  }
+
+  const allowed = promptVariables[id];
+  for (const [, name] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(name)) {
+      const expected = allowed.length > 0 ? `expected one of: ${allowed.join(", ")}` : "it takes no variables";
+      throw new Error(`Invalid prompt template in ${source}: unknown variable "${name}"; ${expected}`);
+    }
+  }
+  return { id, version, body, source };
+}
+
+/** Renders a template, replacing each `{{name}}` with `variables[name]`; unknown names throw. */
+export function renderPrompt(
+  id: PromptId,
+  variables: Record<string, string> = {},
+  templates: PromptTemplates = getPromptTemplates()
+): RenderedPrompt {
+  const template = templates[id];
+  const text = template.body.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Prompt template ${id} (${template.source}) uses unknown variable "${name}"`);
+    }
+    return value;
+  });
+  return { id, version: template.version, text };
+}
+
+export function promptRef(id: PromptId, templates: PromptTemplates = getPromptTemplates()): PromptRef {
+  return { id, version: templates[id].version };
+}
+
+function readTemplateDir(dir: string) {
+  const templates = new Map<PromptId, PromptTemplate>();
+  if (!existsSync(dir)) {
+    throw new Error(`Prompt template directory not found: ${dir}`);
+  }
+
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".md")) continue;
+    const id = file.slice(0, -".md".length);
+    const source = path.join(dir, file);
+    if (!isPromptId(id)) {
+      throw new Error(`Unknown prompt template ${source}; expected one of: ${promptIds.join(", ")}`);
+    }
+    templates.set(id, parsePromptTemplate(id, readFileSync(source, "utf8"), source));
+  }
+  return templates;
+}
+
+function isPromptId(value: string): value is PromptId {
+  return (promptIds as readonly string[]).includes(value);
+}
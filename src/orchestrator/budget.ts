@@ -1,16 +1,23 @@
 import type { StageBudgetManager } from "./types";
 
+export type BudgetUnit = "calls" | "tokens";
+
 export class BudgetExceededError extends Error {
-  constructor(public readonly limit: number) {
-    super(`Stage budget exceeded (limit: ${limit})`);
+  constructor(public readonly limit: number, public readonly unit: BudgetUnit = "calls") {
+    super(`Stage budget exceeded (limit: ${limit}${unit === "tokens" ? " tokens" : ""})`);
     this.name = "BudgetExceededError";
   }
 }
 
 export class StageBudget implements StageBudgetManager {
   private count: number;
+  private tokens = 0;
 
-  constructor(private readonly limit: number, initialCount = 0) {
+  constructor(
+    private readonly limit: number,
+    initialCount = 0,
+    private readonly tokenLimit?: number
+  ) {
     this.count = initialCount;
   }
 
@@ -18,14 +25,30 @@ export class StageBudget implements StageBudgetManager {
     return this.count;
   }
 
+  get totalTokens() {
+    return this.tokens;
+  }
+
   private track() {
     if (this.count >= this.limit) {
       throw new BudgetExceededError(this.limit);
     }
+    this.ensureTokens();
     this.count += 1;
   }
 
+  // A call already in flight may overshoot the token limit; the next one is refused
+  ensureTokens(): void {
+    if (this.tokenLimit !== undefined && this.tokens >= this.tokenLimit) {
+      throw new BudgetExceededError(this.tokenLimit, "tokens");
+    }
+  }
+
   consume(_kind?: "generation" | "validation"): void {
     this.track();
   }
+
+  recordTokens(tokens: number): void {
+    this.tokens += Math.max(0, tokens);
+  }
 }
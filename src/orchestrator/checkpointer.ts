@@ -0,0 +1,235 @@
+import { and, desc, eq, lt, sql, type SQL } from "drizzle-orm";
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol
+} from "@langchain/langgraph-checkpoint";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { db as defaultDb, type DrizzleClient } from "../db/client";
+import { graphCheckpointWrites, graphCheckpoints } from "../db/schema";
+
+type CheckpointRow = typeof graphCheckpoints.$inferSelect;
+
+// Metadata is stored as serialized JSON, so list filters compare through json_extract on both sides:
+// a JSON-encoded filter value extracts to the same SQL value (1/0 for booleans, text for objects)
+function metadataEquals(key: string, value: unknown): SQL {
+  const path = `$.${JSON.stringify(key)}`;
+  return sql`json_extract(CAST(${graphCheckpoints.metadata} AS TEXT), ${path}) IS json_extract(${JSON.stringify(value ?? null)}, '$')`;
+}
+
+/**
+ * LangGraph checkpointer backed by the app's libsql database, so stage runs survive restarts
+ * and can be listed, resumed, or replayed from any stored checkpoint. Storage layout mirrors
+ * MemorySaver: one row per checkpoint plus one row per pending write.
+ */
+export class LibsqlCheckpointSaver extends BaseCheckpointSaver {
+  constructor(
+    private readonly db: DrizzleClient = defaultDb,
+    serde?: SerializerProtocol
+  ) {
+    super(serde);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (threadId === undefined) return undefined;
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? "";
+    const checkpointId = getCheckpointId(config);
+
+    const conditions = [
+      eq(graphCheckpoints.threadId, threadId),
+      eq(graphCheckpoints.checkpointNs, checkpointNs)
+    ];
+    if (checkpointId) {
+      conditions.push(eq(graphCheckpoints.checkpointId, checkpointId));
+    }
+
+    const [row] = await this.db
+      .select()
+      .from(graphCheckpoints)
+      .where(and(...conditions))
+      .orderBy(desc(graphCheckpoints.checkpointId))
+      .limit(1);
+
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, filter, limit } = options ?? {};
+
+    const conditions: SQL[] = [];
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (threadId !== undefined) {
+      conditions.push(eq(graphCheckpoints.threadId, threadId));
+    }
+    const checkpointNs = config.configurable?.checkpoint_ns as string | undefined;
+    if (checkpointNs !== undefined) {
+      conditions.push(eq(graphCheckpoints.checkpointNs, checkpointNs));
+    }
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined;
+    if (checkpointId) {
+      conditions.push(eq(graphCheckpoints.checkpointId, checkpointId));
+    }
+    const beforeId = before?.configurable?.checkpoint_id as string | undefined;
+    if (beforeId) {
+      conditions.push(lt(graphCheckpoints.checkpointId, beforeId));
+    }
+    for (const [key, value] of Object.entries(filter ?? {})) {
+      conditions.push(metadataEquals(key, value));
+    }
+
+    const query = this.db
+      .select()
+      .from(graphCheckpoints)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(graphCheckpoints.checkpointId));
+    const rows = limit !== undefined ? await query.limit(Math.max(limit, 0)) : await query;
+
+    for (const row of rows) {
+      yield await this.toTuple(row);
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint: the RunnableConfig is missing "configurable.thread_id".');
+    }
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? "";
+
+    const [[type, serializedCheckpoint], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata)
+    ]);
+
+    const values = {
+      threadId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId: (config.configurable?.checkpoint_id as string | undefined) ?? null,
+      type,
+      checkpoint: Buffer.from(serializedCheckpoint),
+      metadata: Buffer.from(serializedMetadata)
+    };
+
+    await this.db
+      .insert(graphCheckpoints)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [graphCheckpoints.threadId, graphCheckpoints.checkpointNs, graphCheckpoints.checkpointId],
+        set: { type: values.type, checkpoint: values.checkpoint, metadata: values.metadata }
+      });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id
+      }
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error('Failed to put writes: the RunnableConfig is missing "configurable.thread_id" or "checkpoint_id".');
+    }
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? "";
+
+    for (const [index, [channel, value]] of writes.entries()) {
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      const idx = WRITES_IDX_MAP[channel] ?? index;
+      const row = {
+        threadId,
+        checkpointNs,
+        checkpointId,
+        taskId,
+        idx,
+        channel,
+        type,
+        value: Buffer.from(serialized)
+      };
+
+      // Regular writes are write-once per task; special writes (errors, interrupts) replace earlier ones
+      const insert = this.db.insert(graphCheckpointWrites).values(row);
+      if (idx >= 0) {
+        await insert.onConflictDoNothing();
+      } else {
+        await insert.onConflictDoUpdate({
+          target: [
+            graphCheckpointWrites.threadId,
+            graphCheckpointWrites.checkpointNs,
+            graphCheckpointWrites.checkpointId,
+            graphCheckpointWrites.taskId,
+            graphCheckpointWrites.idx
+          ],
+          set: { channel, type, value: row.value }
+        });
+      }
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(graphCheckpointWrites).where(eq(graphCheckpointWrites.threadId, threadId));
+      await tx.delete(graphCheckpoints).where(eq(graphCheckpoints.threadId, threadId));
+    });
+  }
+
+  private async toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const writes = await this.db
+      .select()
+      .from(graphCheckpointWrites)
+      .where(
+        and(
+          eq(graphCheckpointWrites.threadId, row.threadId),
+          eq(graphCheckpointWrites.checkpointNs, row.checkpointNs),
+          eq(graphCheckpointWrites.checkpointId, row.checkpointId)
+        )
+      )
+      .orderBy(graphCheckpointWrites.taskId, graphCheckpointWrites.idx);
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async (write) => [
+        write.taskId,
+        write.channel,
+        await this.serde.loadsTyped(write.type, new Uint8Array(write.value))
+      ] as CheckpointPendingWrite)
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.checkpointId
+        }
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, new Uint8Array(row.checkpoint)),
+      metadata: (await this.serde.loadsTyped("json", new Uint8Array(row.metadata))) as CheckpointMetadata,
+      pendingWrites
+    };
+
+    if (row.parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.parentCheckpointId
+        }
+      };
+    }
+
+    return tuple;
+  }
+}
+
@@ -1 +1,5 @@
+import { env } from "../env";
+
 export const MAX_STAGE_LLM_CALLS = 4;
+/** Per-run token cap for stage writers; unset means only the call-count budget applies. */
+export const MAX_STAGE_TOKENS = env.STAGE_TOKEN_BUDGET;
@@ -1,8 +1,9 @@
 import { Annotation, StateGraph, START, END } from "@langchain/langgraph";
-import { MemorySaver } from "@langchain/langgraph-checkpoint";
+import type { BaseCheckpointSaver } from "@langchain/langgraph-checkpoint";
 import type { RunnableConfig } from "@langchain/core/runnables";
 
 import { StageBudget, BudgetExceededError } from "./budget";
+import { LibsqlCheckpointSaver } from "./checkpointer";
 import { MAX_STAGE_LLM_CALLS } from "./constants";
 import type {
   StageEvent,
@@ -23,9 +24,11 @@ const StageState = Annotation.Root({
     default: () => "running",
     reducer: (_current, update) => update
   }),
+  // Each invocation is one stage run on a long-lived thread, so events are replaced per run
+  // instead of accumulating across every run persisted for the thread
   events: Annotation<StageEvent[]>({
     default: () => [],
-    reducer: (left, right) => left.concat(right)
+    reducer: (_current, update) => update
   })
 });
 
@@ -78,7 +81,11 @@ function createStageNode(stage: StageName) {
     const runtime = resolveRuntime(config);
     const sessionId = runtime.sessionId || state.sessionId;
     const reingest = runtime.reingest ?? (async () => {});
-    const budget = new StageBudget(runtime.budgetLimit ?? MAX_STAGE_LLM_CALLS, state.llmCalls ?? 0);
+    const budget = new StageBudget(
+      runtime.budgetLimit ?? MAX_STAGE_LLM_CALLS,
+      state.llmCalls ?? 0,
+      runtime.tokenBudget
+    );
     const events = createEventBuffer(runtime.onEvent);
     let status: StageStatus = "running";
 
@@ -129,7 +136,7 @@ function createStageNode(stage: StageName) {
   };
 }
 
-export function createStageGraph() {
+export function createStageGraph(checkpointer: BaseCheckpointSaver = new LibsqlCheckpointSaver()) {
   const graph = new StateGraph(StageState, { nodes: STAGE_GRAPH_NODES });
 
   graph.addConditionalEdges(START, (state: StageGraphState) => state.stage);
@@ -140,7 +147,7 @@ export function createStageGraph() {
   }
 
   return graph.compile({
-    checkpointer: new MemorySaver(),
+    checkpointer,
     name: "stage-orchestrator"
   });
 }
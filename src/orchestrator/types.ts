@@ -12,7 +12,7 @@ export type StageEvent =
   | { event: "assistant.delta"; data: string }
   | { event: "doc.updated"; data: { name: string; size?: number } }
   | { event: "stage.ready"; data: { stage: StageName } }
-  | { event: "stage.needs_more"; data: { stage: StageName; reason: string } };
+  | { event: "stage.needs_more"; data: { stage: StageName; reason: string; details?: string[] } };
 
 export type StageReingestPhase = "stage_start" | "pre_validation";
 
@@ -26,7 +26,12 @@ export type StageReingestHandler = (input: StageReingestInput) => Promise<void>
 
 export interface StageBudgetManager {
   readonly totalCalls: number;
+  readonly totalTokens: number;
   consume: (kind: "generation" | "validation") => Promise<void> | void;
+  /** Charges input + output tokens reported by a completed LLM call against the token budget. */
+  recordTokens: (tokens: number) => void;
+  /** Throws BudgetExceededError once the token budget is spent; checked before every model call. */
+  ensureTokens: () => void;
 }
 
 export type StageDriverRunArgs<StateSnapshot = StageGraphState> = {
@@ -60,4 +65,5 @@ export type StageRuntimeOptions = {
   reingest: StageReingestHandler;
   onEvent?: (event: StageEvent) => void;
   budgetLimit?: number;
+  tokenBudget?: number;
 };
@@ -1,22 +1,30 @@
 import { readFileSync } from "node:fs";
 import path from "node:path";
-import { and, asc, desc, eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 import { db } from "../db/client";
 import {
   chatMessages,
   designs,
+  docNames,
   docs,
+  sessions,
   type ChatRole,
   type DocName,
   type StageName
 } from "../db/schema";
-import { generateResponse, type OpenAIResponseInput } from "../libs/openai";
+import { generateResponse, type LlmCallContext, type LlmInput } from "../libs/llm";
+import { promptRef, renderPrompt, type PromptRef } from "../libs/prompts";
+import { loadChatBranch } from "../services/chat-branches";
+import { buildChatContext, estimateTokens, formatTurns } from "../services/chat-context";
+import { findUpstreamChanges, sourceHash } from "../services/doc-staleness";
+import { writeDocVersion } from "../services/doc-versions";
+import { extractSections, type SectionMap } from "../utils/doc-diff";
+import { sha256String } from "../utils/export";
+import { BudgetExceededError } from "./budget";
 import type { StageDriverRunArgs, StageDriverResult } from "./types";
 
 type StageWriter = (args: StageDriverRunArgs) => Promise<StageDriverResult>;
 
-type SectionMap = Record<string, string>;
-
 const seedIdea = (() => {
   try {
     const filePath = path.resolve(process.cwd(), "initial_idea.md");
@@ -26,18 +34,10 @@ const seedIdea = (() => {
   }
 })();
 
-const agentResponsibilityBlock = [
-  "- After completing any coding, refactor, or test step, **immediately update the corresponding TODO checklist item in `prompt_plan.md`**.",
-  "- Use the same Markdown checkbox format (`- [x]`) to mark completion.",
-  "- When creating new tasks or subtasks, add them directly under the appropriate section anchor in `prompt_plan.md`.",
-  "- Always commit changes to `prompt_plan.md` alongside the code and tests that fulfill them.",
-  "- Do not consider work “done” until the matching checklist item is checked and all related tests are green.",
-  "- When a stage (plan step) is complete with green tests, update the README “Release notes” section with any user-facing impact.",
-  "- Even when automated coverage exists, always suggest a feasible manual test path so the human can exercise the feature end-to-end.",
-  "- After a plan step is finished, document its completion state with a short checklist so the human can copy/paste it into a commit."
-].join("\n");
-const SPEC_COMPILE_PROMPT =
-  "Now that we've wrapped up the brainstorming process, can you compile our findings into a comprehensive, developer-ready specification? Include all relevant requirements, architecture choices, data handling details, error handling strategies, and a testing plan so a developer can immediately begin implementation.";
+export function agentResponsibilityBlock() {
+  return renderPrompt("writer.agents.responsibility").text;
+}
+
 const DEFAULT_SPEC_DEFINITION_OF_DONE = [
   "- Intake, one-pager, and spec docs are approved.",
   "- Design prompt is ready for the human designer.",
@@ -51,10 +51,7 @@ export const stageWriters: Record<StageName, StageWriter> = {
   design: runDesignStage,
   prompt_plan: runPromptPlanStage,
   agents: runAgentsStage,
-  export: async ({ stage, emit }) => {
-    emitNeedsMore(emit, stage, "EXPORT_NOT_IMPLEMENTED");
-    return { status: "needs_more", reason: "EXPORT_NOT_IMPLEMENTED" };
-  }
+  export: runExportStage
 };
 
 async function runIntakeStage(args: StageDriverRunArgs): Promise<StageDriverResult> {
@@ -62,15 +59,16 @@ async function runIntakeStage(args: StageDriverRunArgs): Promise<StageDriverResu
   let content: string | undefined;
 
   if (conversation.length > 0) {
-    content = await draftIdeaDocWithModel(conversation).catch(() => undefined);
+    content = await draftIdeaDocWithModel(conversation, llmContext(args)).catch(unlessBudgetExceeded);
   }
+  const prompt = content ? promptRef("writer.intake") : undefined;
 
   if (!content) {
     const insights = gatherIntakeInsights(conversation);
     content = buildIntakeDoc(insights);
   }
 
-  await writeDoc(args.sessionId, "idea_one_pager.md", content);
+  await writeDoc(args, "idea_one_pager.md", content, undefined, prompt);
   emitDocUpdated(args.emit, "idea_one_pager.md", content);
   emitDelta(args.emit, "Documented intake notes into idea_one_pager.md.");
   return ready();
@@ -84,13 +82,16 @@ async function runSpecStage(args: StageDriverRunArgs): Promise<StageDriverResult
 
   const sections = extractSections(ideaDoc ?? "");
   const conversation = await fetchSpecConversation(args.sessionId);
-  const generated = await draftSpecDocWithModel({
-    ideaDoc: ideaDoc ?? "",
-    ideaSections: sections,
-    conversation
-  }).catch(() => undefined);
+  const generated = await draftSpecDocWithModel(
+    {
+      ideaDoc: ideaDoc ?? "",
+      ideaSections: sections,
+      conversation
+    },
+    llmContext(args)
+  ).catch(unlessBudgetExceeded);
   const content = generated ?? buildSpecDoc(sections);
-  await writeDoc(args.sessionId, "spec.md", content);
+  await writeDoc(args, "spec.md", content, { "idea_one_pager.md": ideaDoc }, generated ? promptRef("writer.spec") : undefined);
   emitDocUpdated(args.emit, "spec.md", content);
   emitDelta(args.emit, "Compiled the spec interview into spec.md.");
   return ready();
@@ -103,8 +104,10 @@ async function runDesignStage(args: StageDriverRunArgs): Promise<StageDriverResu
   }
 
   const sections = extractSections(specDoc ?? "");
-  const content = buildDesignPrompt(sections);
-  await writeDoc(args.sessionId, "prompt_plan.md", content);
+  const notes = await fetchStageNotes(args, specDoc ?? "");
+  const brief = await draftDesignBriefWithModel(specDoc ?? "", llmContext(args), notes).catch(unlessBudgetExceeded);
+  const content = brief ? buildDesignPromptDoc(brief) : buildDesignPrompt(sections);
+  await writeDoc(args, "prompt_plan.md", content, { "spec.md": specDoc }, brief ? promptRef("writer.design") : undefined);
   emitDocUpdated(args.emit, "prompt_plan.md", content);
   emitDelta(args.emit, "Drafted design prompt inside prompt_plan.md.");
   return ready();
@@ -119,8 +122,15 @@ async function runPromptPlanStage(args: StageDriverRunArgs): Promise<StageDriver
   const currentPlan = await readDoc(args.sessionId, "prompt_plan.md");
   const designPrompt = extractSection(currentPlan ?? "", "Design Prompt");
   const designFiles = await fetchDesignIndex(args.sessionId);
-  const content = buildPromptPlanDoc(specDoc ?? "", designPrompt, designFiles);
-  await writeDoc(args.sessionId, "prompt_plan.md", content);
+  const notes = await fetchStageNotes(args, `${specDoc ?? ""}${designPrompt ?? ""}`);
+  const steps = await draftPlanStepsWithModel(
+    { specDoc: specDoc ?? "", designPrompt, designFiles, notes },
+    llmContext(args)
+  ).catch(unlessBudgetExceeded);
+  const content = steps
+    ? buildModelPromptPlanDoc(steps, designPrompt, designFiles)
+    : buildPromptPlanDoc(specDoc ?? "", designPrompt, designFiles);
+  await writeDoc(args, "prompt_plan.md", content, { "spec.md": specDoc }, steps ? promptRef("writer.prompt_plan") : undefined);
   emitDocUpdated(args.emit, "prompt_plan.md", content);
   emitDelta(args.emit, "Outlined stage-by-stage prompt plan.");
   return ready();
@@ -134,17 +144,135 @@ async function runAgentsStage(args: StageDriverRunArgs): Promise<StageDriverResu
 
   const ideaDoc = await readDoc(args.sessionId, "idea_one_pager.md");
   const specDoc = await readDoc(args.sessionId, "spec.md");
-  const content = buildAgentsDoc({
+  const sourceDocs = {
     ideaOnePager: ideaDoc ?? "",
     spec: specDoc ?? "",
     promptPlan: planDoc ?? ""
-  });
-  await writeDoc(args.sessionId, "AGENTS.md", content);
+  };
+  const notes = await fetchStageNotes(args, Object.values(sourceDocs).join(""));
+  const handbook = await draftAgentsHandbookWithModel(sourceDocs, llmContext(args), notes).catch(unlessBudgetExceeded);
+  const content = handbook ? buildModelAgentsDoc(handbook) : buildAgentsDoc(sourceDocs);
+  await writeDoc(
+    args,
+    "AGENTS.md",
+    content,
+    {
+      "idea_one_pager.md": ideaDoc,
+      "spec.md": specDoc,
+      "prompt_plan.md": planDoc
+    },
+    handbook ? promptRef("writer.agents") : undefined
+  );
   emitDocUpdated(args.emit, "AGENTS.md", content);
   emitDelta(args.emit, "Produced AGENTS.md with hand-off instructions.");
   return ready();
 }
 
+async function runExportStage(args: StageDriverRunArgs): Promise<StageDriverResult> {
+  const [docRows, upstreamChanged, designFiles] = await Promise.all([
+    db.query.docs.findMany({
+      where: eq(docs.sessionId, args.sessionId),
+      columns: { name: true, content: true, approved: true, stale: true, updatedAt: true }
+    }),
+    findUpstreamChanges(args.sessionId),
+    db.query.designs.findMany({ where: eq(designs.sessionId, args.sessionId), columns: { path: true } })
+  ]);
+
+  const issues = findExportIssues(docRows, upstreamChanged);
+  if (issues.length > 0) {
+    args.emit({ event: "stage.needs_more", data: { stage: args.stage, reason: "EXPORT_INCONSISTENT", details: issues } });
+    return { status: "needs_more", reason: "EXPORT_INCONSISTENT" };
+  }
+
+  const handoff = buildHandoffDoc(docRows, designFiles.map((file) => file.path));
+  await db.update(sessions).set({ handoff }).where(eq(sessions.sessionId, args.sessionId));
+  emitDelta(args.emit, "Checked all four docs for consistency and wrote HANDOFF.md for the export bundle.");
+  return ready();
+}
+
+type ExportDocRow = { name: DocName; content: string; approved: boolean; stale: boolean; updatedAt: number };
+
+// Final consistency pass: every doc present, approved, current with its upstream docs, and
+// still carrying the structure later tooling relies on
+function findExportIssues(docRows: ExportDocRow[], upstreamChanged: Partial<Record<DocName, DocName[]>>) {
+  const issues: string[] = [];
+  const byName = new Map(docRows.map((row) => [row.name, row]));
+
+  for (const name of docNames) {
+    const row = byName.get(name);
+    if (!row || !hasContent(row.content)) {
+      issues.push(`${name} is empty.`);
+      continue;
+    }
+    if (!row.approved) {
+      issues.push(`${name} is not approved.`);
+    }
+    const changed = upstreamChanged[name];
+    if (changed?.length) {
+      issues.push(`${name} is out of date: ${changed.join(", ")} changed after it was generated.`);
+    } else if (row.stale) {
+      issues.push(`${name} is stale after an upstream stage was reopened.`);
+    }
+  }
+
+  const spec = byName.get("spec.md")?.content ?? "";
+  if (hasContent(spec) && !/definition\s+of\s+done/i.test(spec)) {
+    issues.push('spec.md no longer has a "Definition of Done" section.');
+  }
+  const plan = byName.get("prompt_plan.md")?.content ?? "";
+  if (hasContent(plan) && !/^\s*[-*]\s+\[[ xX]\]\s+\S/m.test(plan)) {
+    issues.push("prompt_plan.md has no checklist items.");
+  }
+  const agents = byName.get("AGENTS.md")?.content ?? "";
+  // The block's wording comes from a template a deployment can change after the doc was written,
+  // so only the section itself is required here
+  if (hasContent(agents) && !hasContent(extractSections(agents)["Agent responsibility"])) {
+    issues.push('AGENTS.md no longer has an "Agent responsibility" section.');
+  }
+
+  return issues;
+}
+
+function buildHandoffDoc(docRows: ExportDocRow[], designPaths: string[]) {
+  const byName = new Map(docRows.map((row) => [row.name, row]));
+  const idea = byName.get("idea_one_pager.md")?.content ?? "";
+  const plan = byName.get("prompt_plan.md")?.content ?? "";
+  const summary = extractSection(idea, "Summary") ?? extractSection(idea, "Problem") ?? "See idea_one_pager.md.";
+  const steps = plan.match(/^###\s+Step\s+\d+.*$/gim) ?? [];
+  const openItems = plan.match(/^\s*[-*]\s+\[ \]\s+\S/gm)?.length ?? 0;
+  const doneItems = plan.match(/^\s*[-*]\s+\[[xX]\]\s+\S/gm)?.length ?? 0;
+
+  const docLines = docNames.map((name) => {
+    const row = byName.get(name);
+    const updated = row ? new Date(row.updatedAt).toISOString() : "n/a";
+    return `- \`${name}\` — sha256 \`${sha256String(row?.content ?? "")}\`, last updated ${updated}`;
+  });
+
+  return [
+    "# Handoff",
+    `## Summary\n${condense(summary)}`,
+    ["## Documents", ...docLines].join("\n"),
+    [
+      "## Implementation Plan",
+      steps.length > 0
+        ? steps.map((step) => `- ${step.replace(/^###\s+/, "")}`).join("\n")
+        : "- See prompt_plan.md for the stage-by-stage plan.",
+      "",
+      `Checklist: ${doneItems} of ${openItems + doneItems} items complete.`
+    ].join("\n"),
+    [
+      "## Designs",
+      ...(designPaths.length > 0 ? [...designPaths].sort().map((file) => `- designs/${file}`) : ["- No design files uploaded."])
+    ].join("\n"),
+    [
+      "## Getting Started",
+      "1. Read AGENTS.md and follow its build/test commands and forbidden actions.",
+      "2. Work through prompt_plan.md one step at a time, checking off items as their tests go green.",
+      "3. Use spec.md as the source of truth when the plan and the code disagree."
+    ].join("\n")
+  ].join("\n\n");
+}
+
 type IntakeSection = "Problem" | "Audience" | "Platform" | "Core Flow" | "MVP Features" | "Non-Goals";
 
 type IntakeInsights = {
@@ -172,31 +300,15 @@ const assistantTopicMatchers: Array<{ section: IntakeSection; patterns: RegExp[]
   { section: "Non-Goals", patterns: [/non-?goals?/i, /out of scope/i, /deferr(ed|ing)/i] }
 ];
 
-async function draftIdeaDocWithModel(conversation: typeof chatMessages.$inferSelect[]) {
-  const transcript = formatTranscript(conversation);
+async function draftIdeaDocWithModel(conversation: typeof chatMessages.$inferSelect[], context: LlmCallContext) {
+  const transcript = await buildTranscript(conversation, context);
   if (!transcript) return undefined;
 
-  const input: OpenAIResponseInput = [
+  const input: LlmInput = [
     {
       role: "system",
       type: "message",
-      content: [
-        "You are a founding product lead who turns intake interviews into clear planning docs.",
-        "Produce Markdown for `idea_one_pager.md` with these sections (in order):",
-        "## Summary",
-        "## Problem",
-        "## Audience",
-        "## Platform",
-        "## Core Flow",
-        "## MVP Features",
-        "## Non-Goals",
-        "",
-        "Write in the third person, synthesizing insights instead of quoting users verbatim.",
-        "If information is missing, write `TBD – what needs to be clarified` for that section.",
-        "Compose this document such that we could start talking with product & engineering leadership about how this could be built.",
-        "Tone: confident, concise, and actionable.",
-        "Never mention chat logs, transcripts, or session IDs."
-      ].join("\n")
+      content: renderPrompt("writer.intake").text
     },
     {
       role: "user",
@@ -210,8 +322,8 @@ async function draftIdeaDocWithModel(conversation: typeof chatMessages.$inferSel
     }
   ];
 
-  const response = await generateResponse({ input });
-  const doc = collectResponseText(response)?.trim();
+  const response = await generateResponse({ input, context });
+  const doc = response.text?.trim();
   if (!doc) return undefined;
   return ensureIdeaSections(doc);
 }
@@ -225,20 +337,13 @@ const contentTopicMatchers: Array<{ section: IntakeSection; pattern: RegExp }> =
   { section: "Non-Goals", pattern: /(non-goal|out of scope|later phase|defer|not focusing)/i }
 ];
 
+// Abandoned edits and regenerations stay out of the drafts: only the active branch is read
 async function fetchIntakeConversation(sessionId: string) {
-  return db.query.chatMessages.findMany({
-    where: and(eq(chatMessages.sessionId, sessionId), eq(chatMessages.stage, "intake")),
-    orderBy: [asc(chatMessages.createdAt)],
-    limit: 200
-  });
+  return loadChatBranch(sessionId, "intake");
 }
 
 async function fetchSpecConversation(sessionId: string) {
-  return db.query.chatMessages.findMany({
-    where: and(eq(chatMessages.sessionId, sessionId), eq(chatMessages.stage, "spec")),
-    orderBy: [asc(chatMessages.createdAt)],
-    limit: 200
-  });
+  return loadChatBranch(sessionId, "spec");
 }
 
 function gatherIntakeInsights(conversation: typeof chatMessages.$inferSelect[]): IntakeInsights {
@@ -366,47 +471,30 @@ function selectSummary(messages: string[]) {
   return substantial ?? messages[0];
 }
 
-function formatTranscript(conversation: typeof chatMessages.$inferSelect[]) {
-  return conversation
-    .slice(-50)
-    .map((msg) => {
-      const role = msg.role.toUpperCase();
-      const content = msg.content.replace(/\s+/g, " ").trim();
-      return `${role}: ${content}`;
-    })
-    .join("\n");
+// Directions the operator gave in the stage's own chat; undefined when they went straight to drafting
+async function fetchStageNotes(args: StageDriverRunArgs, referenceText: string) {
+  const conversation = await loadChatBranch(args.sessionId, args.stage);
+  if (conversation.length === 0) return undefined;
+  return buildTranscript(conversation, llmContext(args), referenceText);
 }
 
-function collectResponseText(response: any) {
-  const chunks: string[] = [];
-  for (const output of response?.output ?? []) {
-    if (output?.type === "message" && output?.message?.content) {
-      for (const segment of output.message.content) {
-        const text = extractTextField(segment);
-        if (text) chunks.push(text);
-      }
-    } else if (output?.role === "assistant" && Array.isArray(output?.content)) {
-      for (const segment of output.content) {
-        const text = extractTextField(segment);
-        if (text) chunks.push(text);
-      }
-    }
-  }
-  if (chunks.length === 0 && Array.isArray(response?.output_text)) {
-    return response.output_text.filter((text: unknown) => typeof text === "string").join("\n");
-  }
-  return chunks.join("");
+function stageNotesBlock(notes?: string) {
+  return notes ? ["", "OPERATOR DIRECTIONS FROM THIS STAGE'S CONVERSATION (follow them where they refine the docs):", notes] : [];
 }
 
-function extractTextField(segment: any) {
-  if (!segment) return "";
-  if (typeof segment === "string") return segment;
-  if (typeof segment.text === "string") return segment.text;
-  if (Array.isArray(segment.text)) {
-    return segment.text.filter((part: unknown) => typeof part === "string").join("");
-  }
-  if (typeof segment.value === "string") return segment.value;
-  return "";
+// Long interviews keep their latest turns verbatim and arrive with the stage's rolling summary of the rest
+async function buildTranscript(
+  conversation: typeof chatMessages.$inferSelect[],
+  context: LlmCallContext,
+  referenceText = ""
+) {
+  const { summary, recent } = await buildChatContext(context.sessionId, context.stage ?? null, conversation, {
+    reservedTokens: estimateTokens(referenceText),
+    context
+  });
+  const turns = formatTurns(recent);
+  if (!summary) return turns;
+  return ["EARLIER TURNS (summarized):", summary, "", "LATEST TURNS:", turns].join("\n");
 }
 
 function ensureIdeaSections(content: string) {
@@ -488,31 +576,28 @@ function buildSpecDoc(onePagerSections: SectionMap) {
   return ensureSpecStructure(body, onePagerSections);
 }
 
-async function draftSpecDocWithModel({
-  ideaDoc,
-  ideaSections,
-  conversation
-}: {
-  ideaDoc: string;
-  ideaSections: SectionMap;
-  conversation: typeof chatMessages.$inferSelect[];
-}) {
-  const transcript = formatTranscript(conversation);
+async function draftSpecDocWithModel(
+  {
+    ideaDoc,
+    ideaSections,
+    conversation
+  }: {
+    ideaDoc: string;
+    ideaSections: SectionMap;
+    conversation: typeof chatMessages.$inferSelect[];
+  },
+  context: LlmCallContext
+) {
+  const transcript = await buildTranscript(conversation, context, ideaDoc);
   if (!transcript) {
     return undefined;
   }
 
-  const input: OpenAIResponseInput = [
+  const input: LlmInput = [
     {
       role: "system",
       type: "message",
-      content: [
-        "You are a staff product engineer who turns structured interviews into developer-ready specifications.",
-        "Write Markdown with sections for Summary, Requirements, Architecture, Data Handling, Error Handling, Testing Plan, Risks, and Definition of Done.",
-        "Reference the Problem, Audience, Platform, Core Flow, and MVP Features from the intake one-pager so downstream stages stay aligned.",
-        "Only include information that appears in the transcript or the intake doc; if something is missing, call it out as a follow-up item.",
-        "Never mention transcripts, chat logs, or session IDs."
-      ].join("\n")
+      content: renderPrompt("writer.spec").text
     },
     {
       role: "user",
@@ -528,12 +613,12 @@ async function draftSpecDocWithModel({
     {
       role: "user",
       type: "message",
-      content: SPEC_COMPILE_PROMPT
+      content: renderPrompt("writer.spec.compile").text
     }
   ];
 
-  const response = await generateResponse({ input });
-  const doc = collectResponseText(response)?.trim();
+  const response = await generateResponse({ input, context });
+  const doc = response.text?.trim();
   if (!doc) {
     return undefined;
   }
@@ -573,21 +658,104 @@ function summarizeIntakeSection(sections: SectionMap, key: string, fallback: str
   return fallback;
 }
 
+async function draftDesignBriefWithModel(specDoc: string, context: LlmCallContext, notes?: string) {
+  if (!specDoc.trim()) return undefined;
+
+  const input: LlmInput = [
+    {
+      role: "system",
+      type: "message",
+      content: renderPrompt("writer.design").text
+    },
+    {
+      role: "user",
+      type: "message",
+      content: ["SPEC:", specDoc.trim(), ...stageNotesBlock(notes), "", "Write the design brief now."].join("\n")
+    }
+  ];
+
+  const response = await generateResponse({ input, context });
+  const brief = response.text?.trim();
+  if (!brief) return undefined;
+  // The brief lives under a single "## Design Prompt" heading, so any headings the model adds
+  // become bold labels; otherwise the prompt_plan stage would only read up to the first one
+  return brief.replace(/^#{1,6}\s+(.+?)\s*$/gm, "**$1**");
+}
+
 function buildDesignPrompt(specSections: SectionMap) {
   const summary = specSections.Summary ?? "The spec outlines how the agent-ready planner behaves.";
+  return buildDesignPromptDoc(
+    [
+      `${condense(summary)} Ensure the UI matches the staged workflow: docs on the left, chat + editor tabs on the right.`,
+      "- Create hero, workflow strip, doc cards, and chat/editor layout references.",
+      "- Provide states for disabled/enabled Approve buttons and doc locks.",
+      "- Include at least one mobile viewport for the landing hero."
+    ].join("\n\n")
+  );
+}
+
+function buildDesignPromptDoc(brief: string) {
   return [
     "# Prompt Plan",
     "## Design Prompt",
-    `${condense(summary)} Ensure the UI matches the staged workflow: docs on the left, chat + editor tabs on the right.`,
-    "- Create hero, workflow strip, doc cards, and chat/editor layout references.",
-    "- Provide states for disabled/enabled Approve buttons and doc locks.",
-    "- Include at least one mobile viewport for the landing hero.",
+    brief,
     "",
     "## Planner Placeholder",
     "_The detailed prompt plan will be generated during the prompt_plan stage._"
   ].join("\n\n");
 }
 
+async function draftPlanStepsWithModel(
+  {
+    specDoc,
+    designPrompt,
+    designFiles,
+    notes
+  }: { specDoc: string; designPrompt?: string; designFiles: string[]; notes?: string },
+  context: LlmCallContext
+) {
+  const input: LlmInput = [
+    {
+      role: "system",
+      type: "message",
+      content: renderPrompt("writer.prompt_plan").text
+    },
+    {
+      role: "user",
+      type: "message",
+      content: [
+        "SPEC:",
+        specDoc.trim(),
+        "",
+        "DESIGN BRIEF:",
+        designPrompt?.trim() || "No design brief was drafted.",
+        "",
+        "DESIGN FILES:",
+        ...designFiles.map((file) => `- ${file}`),
+        ...stageNotesBlock(notes)
+      ].join("\n")
+    }
+  ];
+
+  const response = await generateResponse({ input, context });
+  const text = response.text?.trim() ?? "";
+  // Anything before the first step (preambles, a repeated doc title) is dropped
+  const start = text.search(/^###\s+Step\s+\d+/im);
+  if (start === -1) return undefined;
+  const steps = text.slice(start).trim();
+  return /^\s*[-*]\s+\[ \]\s+\S/m.test(steps) ? steps : undefined;
+}
+
+function buildModelPromptPlanDoc(steps: string, designPrompt?: string, designFiles?: string[]) {
+  return [
+    "# Prompt Plan",
+    `## Design Prompt\n${designPrompt ?? "Design requirements will be refined with the designer."}`,
+    ["## Design Assets", ...(designFiles ?? []).map((file) => `- ${file}`)].join("\n"),
+    "## Implementation Steps",
+    steps
+  ].join("\n\n");
+}
+
 function buildPromptPlanDoc(specContent: string, designPrompt?: string, designFiles?: string[]) {
   const summary = condense(specContent).slice(0, 360);
   const designSection = designPrompt
@@ -621,6 +789,47 @@ function buildPromptPlanDoc(specContent: string, designPrompt?: string, designFi
   ].join("\n\n");
 }
 
+async function draftAgentsHandbookWithModel(
+  docsContent: { ideaOnePager: string; spec: string; promptPlan: string },
+  context: LlmCallContext,
+  notes?: string
+) {
+  const input: LlmInput = [
+    {
+      role: "system",
+      type: "message",
+      content: renderPrompt("writer.agents").text
+    },
+    {
+      role: "user",
+      type: "message",
+      content: [
+        "SPEC:",
+        docsContent.spec.trim() || "spec.md is empty.",
+        "",
+        "PROMPT PLAN:",
+        docsContent.promptPlan.trim() || "prompt_plan.md is empty.",
+        "",
+        "IDEA ONE PAGER:",
+        docsContent.ideaOnePager.trim() || "idea_one_pager.md is empty.",
+        ...stageNotesBlock(notes)
+      ].join("\n")
+    }
+  ];
+
+  const response = await generateResponse({ input, context });
+  // The responsibility block must stay verbatim, so any version the model writes is dropped
+  const handbook = (response.text ?? "")
+    .replace(/^#\s+.*$/m, "")
+    .replace(/^#{1,6}\s+agent responsibilit[^\n]*\n[\s\S]*?(?=^#{1,2}\s|(?![\s\S]))/gim, "")
+    .trim();
+  return /^##\s+\S/m.test(handbook) ? handbook : undefined;
+}
+
+function buildModelAgentsDoc(handbook: string) {
+  return ["# AGENTS", handbook, "## Agent responsibility", agentResponsibilityBlock()].join("\n\n");
+}
+
 function buildAgentsDoc(docsContent: { ideaOnePager: string; spec: string; promptPlan: string }) {
   const docSummaries = [
     ["idea_one_pager.md", docsContent.ideaOnePager],
@@ -642,7 +851,7 @@ function buildAgentsDoc(docsContent: { ideaOnePager: string; spec: string; promp
     "## Documents",
     docSummaries,
     "## Agent responsibility",
-    agentResponsibilityBlock,
+    agentResponsibilityBlock(),
     "## Manual Checklist",
     checklist
   ].join("\n\n");
@@ -655,6 +864,25 @@ function summarizeForAgents(content: string) {
   return `${condense(content).slice(0, 160)}...`;
 }
 
+// Model failures fall back to the template docs, but a spent budget stops the stage before it writes
+function unlessBudgetExceeded(error: unknown): undefined {
+  if (error instanceof BudgetExceededError) {
+    throw error;
+  }
+  return undefined;
+}
+
+// Attributes model calls to the session/stage and charges their tokens to the stage budget,
+// refusing any call once the budget is spent
+function llmContext(args: StageDriverRunArgs): LlmCallContext {
+  return {
+    sessionId: args.sessionId,
+    stage: args.stage,
+    beforeCall: () => args.budget.ensureTokens(),
+    onUsage: (usage) => args.budget.recordTokens(usage.inputTokens + usage.outputTokens)
+  };
+}
+
 async function readDoc(sessionId: string, name: DocName) {
   const row = await db.query.docs.findFirst({
     where: (table) => and(eq(table.sessionId, sessionId), eq(table.name, name))
@@ -662,25 +890,31 @@ async function readDoc(sessionId: string, name: DocName) {
   return row?.content ?? "";
 }
 
-async function writeDoc(sessionId: string, name: DocName, content: string) {
-  await db
-    .update(docs)
-    .set({ content, updatedAt: Date.now() })
-    .where(and(eq(docs.sessionId, sessionId), eq(docs.name, name)));
+async function writeDoc(
+  args: StageDriverRunArgs,
+  name: DocName,
+  content: string,
+  upstream?: Partial<Record<DocName, string>>,
+  prompt?: PromptRef
+) {
+  await writeDocVersion({
+    sessionId: args.sessionId,
+    name,
+    content,
+    author: "stage_writer",
+    stage: args.stage,
+    sources: upstream ? hashUpstreamDocs(upstream) : undefined,
+    prompt
+  });
 }
 
-function extractSections(content: string) {
-  const map: SectionMap = {};
-  const headingRegex = /^#{1,6}\s+(.+?)\s*$/gim;
-  let match: RegExpExecArray | null;
-  while ((match = headingRegex.exec(content))) {
-    const title = match[1].trim();
-    const start = match.index + match[0].length;
-    const nextMatchIndex = content.slice(start).search(/^#{1,6}\s+/m);
-    const end = nextMatchIndex === -1 ? content.length : start + nextMatchIndex;
-    map[title] = content.slice(start, end).trim();
+// Records what each upstream doc looked like when this doc was generated, for staleness checks
+function hashUpstreamDocs(upstream: Partial<Record<DocName, string>>) {
+  const hashes: Partial<Record<DocName, string>> = {};
+  for (const [name, content] of Object.entries(upstream) as Array<[DocName, string]>) {
+    hashes[name] = sourceHash(content);
   }
-  return map;
+  return hashes;
 }
 
 function extractSection(content: string, name: string) {
@@ -0,0 +1,120 @@
+import fp from "fastify-plugin";
+import type { FastifyPluginCallback } from "fastify";
+
+export const CHAT_REPLAY_BUFFER_SIZE = 200;
+const CHAT_REPLAY_TTL_MS = 10 * 60_000;
+
+export type ReplayEvent = { id: number; event: string; data: unknown };
+
+type ReplayListener = (event: ReplayEvent | null) => void;
+
+type SessionStream = {
+  lastId: number;
+  events: ReplayEvent[];
+  active: boolean;
+  listeners: Set<ReplayListener>;
+  touchedAt: number;
+};
+
+/**
+ * Per-session ring buffer of recently sent chat SSE events. Event ids increase monotonically
+ * for the lifetime of the buffer so a reconnecting client can ask for everything after the
+ * last id it saw and follow the stream live if it is still running.
+ */
+class ChatReplayBuffer {
+  private streams = new Map<string, SessionStream>();
+
+  constructor(private readonly capacity = CHAT_REPLAY_BUFFER_SIZE) {}
+
+  begin(sid: string) {
+    this.prune();
+    const stream = this.ensure(sid);
+    stream.active = true;
+    stream.touchedAt = Date.now();
+    return stream.lastId;
+  }
+
+  record(sid: string, event: string, data: unknown): ReplayEvent {
+    const stream = this.ensure(sid);
+    stream.lastId += 1;
+    stream.touchedAt = Date.now();
+    const entry: ReplayEvent = { id: stream.lastId, event, data };
+    stream.events.push(entry);
+    if (stream.events.length > this.capacity) {
+      stream.events.splice(0, stream.events.length - this.capacity);
+    }
+    for (const listener of stream.listeners) {
+      listener(entry);
+    }
+    return entry;
+  }
+
+  end(sid: string) {
+    const stream = this.streams.get(sid);
+    if (!stream) return;
+    stream.active = false;
+    stream.touchedAt = Date.now();
+    for (const listener of stream.listeners) {
+      listener(null);
+    }
+    stream.listeners.clear();
+  }
+
+  since(sid: string, lastId: number) {
+    const stream = this.streams.get(sid);
+    if (!stream) return [];
+    return stream.events.filter((entry) => entry.id > lastId);
+  }
+
+  /**
+   * Whether events after `lastId` have already left the buffer, so replaying `since(sid, lastId)`
+   * would silently skip part of the stream.
+   */
+  hasGap(sid: string, lastId: number) {
+    const oldest = this.streams.get(sid)?.events[0];
+    return oldest !== undefined && oldest.id > lastId + 1;
+  }
+
+  isActive(sid: string) {
+    return this.streams.get(sid)?.active ?? false;
+  }
+
+  subscribe(sid: string, listener: ReplayListener) {
+    const stream = this.ensure(sid);
+    stream.listeners.add(listener);
+    return () => {
+      stream.listeners.delete(listener);
+    };
+  }
+
+  private ensure(sid: string) {
+    let stream = this.streams.get(sid);
+    if (!stream) {
+      stream = { lastId: 0, events: [], active: false, listeners: new Set(), touchedAt: Date.now() };
+      this.streams.set(sid, stream);
+    }
+    return stream;
+  }
+
+  private prune() {
+    const cutoff = Date.now() - CHAT_REPLAY_TTL_MS;
+    for (const [sid, stream] of this.streams) {
+      if (!stream.active && stream.touchedAt < cutoff) {
+        this.streams.delete(sid);
+      }
+    }
+  }
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    chatReplay: ChatReplayBuffer;
+  }
+}
+
+const chatReplayPlugin: FastifyPluginCallback = (app, _opts, done) => {
+  app.decorate("chatReplay", new ChatReplayBuffer());
+  done();
+};
+
+export default fp(chatReplayPlugin, { name: "chat-replay" });
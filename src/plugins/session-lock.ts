@@ -0,0 +1,46 @@
+import fp from "fastify-plugin";
+import type { FastifyPluginCallback } from "fastify";
+import { eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { sessions } from "../db/schema";
+import { SESSION_COOKIE_NAME } from "../utils/session-cookie";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Writes that stay available after finalizing: starting a new session, downloading the bundle,
+// and ticking prompt_plan.md checklist items as the hand-off work gets done
+const ALLOWED_AFTER_FINALIZE = new Set(["/api/session/init", "/api/export/zip", "/api/plan/checklist/:index"]);
+
+/**
+ * Makes finalized sessions read-only: any mutating API request for a session whose export
+ * stage was approved is rejected with 409 SESSION_FINALIZED before it reaches its route.
+ */
+const sessionLockPlugin: FastifyPluginCallback = (app, _opts, done) => {
+  app.addHook("preHandler", async (request, reply) => {
+    if (!MUTATING_METHODS.has(request.method)) return;
+
+    const routeUrl = request.routeOptions.url ?? "";
+    if (!routeUrl.startsWith("/api/") || ALLOWED_AFTER_FINALIZE.has(routeUrl)) return;
+
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) return;
+
+    const session = await db.query.sessions.findFirst({
+      where: eq(sessions.sessionId, sessionId),
+      columns: { finalizedAt: true }
+    });
+    if (session?.finalizedAt) {
+      // The chat route takes its stream lock in onRequest, before this hook runs
+      if ((request as any).chatLockAcquired) {
+        app.rateLimiter.releaseChat(sessionId);
+      }
+      return reply.code(409).send({ error: "SESSION_FINALIZED" });
+    }
+  });
+
+  done();
+};
+
+export default fp(sessionLockPlugin, {
+  name: "session-lock"
+});
@@ -1,16 +1,27 @@
 import type { FastifyPluginCallback } from "fastify";
 import fp from "fastify-plugin";
-import { createAbortController, generateResponse, type OpenAIResponseInput } from "../../libs/openai";
+import { streamResponse, type LlmInput } from "../../libs/llm";
+import { renderPrompt, type PromptRef } from "../../libs/prompts";
 import { SESSION_COOKIE_NAME } from "../../utils/session-cookie";
 import { runStage } from "../../services/orchestrator";
 import { db } from "../../db/client";
-import { chatMessages, docs, stageNames, type StageName } from "../../db/schema";
-
-type ChatMessageRow = typeof chatMessages.$inferSelect;
+import { chatMessages, stageNames, type DocName, type StageName } from "../../db/schema";
+import { activeLeafId, loadChatBranch, loadChatBranchPage, type ChatMessageRow } from "../../services/chat-branches";
+import { buildChatContext, estimateTokens } from "../../services/chat-context";
 
 type ChatRequestBody = {
   message: string;
   stage: string;
+  // Id of an earlier user message to replace with `message`
+  edit_of?: number;
+  // Id of an assistant reply to generate again; `message` is ignored
+  regenerate_of?: number;
+};
+
+type ChatHistoryQuery = {
+  stage?: string;
+  cursor?: string;
+  limit?: string;
 };
 
 type NeedsMorePayload = {
@@ -19,53 +30,100 @@ type NeedsMorePayload = {
 };
 
 export const CHAT_KEEPALIVE_MS = 15_000;
+export const CHAT_REPLAY_CURSOR_HEADER = "X-Chat-Event-Cursor";
 const CHAT_MINUTE_LIMIT = 30;
 const CHAT_MINUTE_WINDOW_MS = 60_000;
 const CHAT_HOUR_LIMIT = 300;
 const CHAT_HOUR_WINDOW_MS = 3_600_000;
+const CHAT_HISTORY_DEFAULT_LIMIT = 50;
+const CHAT_HISTORY_MAX_LIMIT = 200;
 const READY_TO_DRAFT_FLAG = "READY_TO_DRAFT";
 const READY_TO_COMPILE_SPEC_FLAG = "READY_TO_COMPILE_SPEC";
-const SPEC_GREETING = "Thank you for providing idea_one_pager.md. I'm going to walk you through questions to create a developer-ready specification.";
-const INTAKE_ASSISTANT_PROMPT = [
-  "Ask me one question at a time so we can develop a one-pager for this idea. Each question should build on the previous ones, and the end goal is a one-pager description of the idea that I could pass to a product manager. We need to gather at least the following:",
-  "- What problem does the app solve?",
-  "- Who is the ideal user for this app?",
-  "- What platform(s) does it live on (mobile web, mobile app, web, CLI)?",
-  "- Describe the core user experience, step-by-step.",
-  "- What are the must-have features for the MVP?",
-  "",
-  "The user will provide an initial description of their app. Evaluate that, and then ask them one question at a time until we have enough detail to answer the questions above & create a one-pager description of the app. If you can infer an answer from the initial idea input or the conversation, no need to ask a question about it. Let's do this iteratively.",
-  "",
-  "IMPORTANT:",
-  "- When you believe we have enough detail to draft, prompt the user for permission and end that message with the exact text 'READY_TO_DRAFT' on its own line.",
-  "- Never draft the one-pager yourself. Wait for the user to explicitly say they want the draft. Once they do, acknowledge it (even if they ask before you emit READY_TO_DRAFT) and move them toward approval.",
-  READY_TO_DRAFT_FLAG
-].join("\n");
+const READY_TO_DRAFT_DESIGN_FLAG = "READY_TO_DRAFT_DESIGN";
+const READY_TO_PLAN_FLAG = "READY_TO_PLAN";
+const READY_TO_WRITE_AGENTS_FLAG = "READY_TO_WRITE_AGENTS";
 const STAGE_READY_FLAGS: Partial<Record<StageName, string>> = {
   intake: READY_TO_DRAFT_FLAG,
-  spec: READY_TO_COMPILE_SPEC_FLAG
+  spec: READY_TO_COMPILE_SPEC_FLAG,
+  design: READY_TO_DRAFT_DESIGN_FLAG,
+  prompt_plan: READY_TO_PLAN_FLAG,
+  agents: READY_TO_WRITE_AGENTS_FLAG
 };
 
-function buildSpecAssistantPrompt(ideaDoc?: string) {
-  const ideaSource = ideaDoc?.trim() ? ideaDoc.trim() : "idea_one_pager.md is empty. Ask clarifying questions so we can fill it in.";
-  return [
-    SPEC_GREETING,
-    "",
-    "Ask me one question at a time so we can develop a thorough, step-by-step spec for this idea. Each question should build on my previous answers, and our end goal is to have a detailed specification I can hand off to a developer. Let's do this iteratively and dig into every relevant detail. If you can infer an answer from the initial idea input, no need to ask a question about it. Remember, only one question at a time.",
-    "",
-    "Here's the idea:",
-    ideaSource,
-    "",
-    "Guidelines:",
-    "- Start your first reply with the greeting above, then dive into the first question.",
-    "- Only ask a new question if the idea or my latest answer doesn't already cover it.",
-    "- Keep referencing the idea input whenever it already answers the question.",
-    "- When you have enough detail to compile the spec, prompt the user for permission and end that prompt with 'READY_TO_COMPILE_SPEC' on its own line.",
-    "- Wait for the operator to explicitly say they want the spec compiled (they might do this before you emit the flag). Once they do, acknowledge it and move them toward hand-off. Do not write the spec inside the chat interface."
-  ].join("\n");
+function referenceDoc(content: string | undefined, fallback: string) {
+  return content?.trim() ? content.trim() : fallback;
 }
 
+// Each stage's assistant is grounded in the docs its writer drafts from
+async function buildStageSystemPrompt(sessionId: string, stage: StageName | undefined) {
+  const readyFlag = stage ? STAGE_READY_FLAGS[stage] : undefined;
+  if (!stage || !readyFlag) return undefined;
+
+  switch (stage) {
+    case "intake":
+      return renderPrompt("chat.intake", { ready_flag: readyFlag });
+    case "spec": {
+      const ideaDoc = await readDocContent(sessionId, "idea_one_pager.md");
+      return renderPrompt("chat.spec", {
+        ready_flag: readyFlag,
+        idea_doc: referenceDoc(ideaDoc, "idea_one_pager.md is empty. Ask clarifying questions so we can fill it in.")
+      });
+    }
+    case "design": {
+      const specDoc = await readDocContent(sessionId, "spec.md");
+      return renderPrompt("chat.design", {
+        ready_flag: readyFlag,
+        spec_doc: referenceDoc(specDoc, "spec.md is empty. Ask what the product needs to do before discussing design.")
+      });
+    }
+    case "prompt_plan": {
+      const [specDoc, planDoc, designFiles] = await Promise.all([
+        readDocContent(sessionId, "spec.md"),
+        readDocContent(sessionId, "prompt_plan.md"),
+        db.query.designs.findMany({ where: (table, { eq }) => eq(table.sessionId, sessionId), columns: { path: true } })
+      ]);
+      return renderPrompt("chat.prompt_plan", {
+        ready_flag: readyFlag,
+        spec_doc: referenceDoc(specDoc, "spec.md is empty."),
+        plan_doc: referenceDoc(planDoc, "prompt_plan.md is empty."),
+        design_files: designFiles.length > 0 ? designFiles.map((file) => `- ${file.path}`).join("\n") : "None yet."
+      });
+    }
+    case "agents": {
+      const [ideaDoc, specDoc, planDoc] = await Promise.all([
+        readDocContent(sessionId, "idea_one_pager.md"),
+        readDocContent(sessionId, "spec.md"),
+        readDocContent(sessionId, "prompt_plan.md")
+      ]);
+      return renderPrompt("chat.agents", {
+        ready_flag: readyFlag,
+        idea_doc: referenceDoc(ideaDoc, "idea_one_pager.md is empty."),
+        spec_doc: referenceDoc(specDoc, "spec.md is empty."),
+        plan_doc: referenceDoc(planDoc, "prompt_plan.md is empty.")
+      });
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function readDocContent(sessionId: string, name: DocName) {
+  const doc = await db.query.docs.findFirst({
+    where: (table, { and, eq }) => and(eq(table.sessionId, sessionId), eq(table.name, name)),
+    columns: { content: true }
+  });
+  return doc?.content ?? "";
+}
+
+type ActiveTurn = {
+  controller: AbortController;
+  finished: Promise<void>;
+};
+
 const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
+  // Turns still generating, so DELETE /api/chat can cancel one and wait for its lock to be released
+  const activeTurns = new Map<string, ActiveTurn>();
+
   // Pre-lock concurrent chat streams as early as possible in the lifecycle
   app.addHook("onRequest", (request, reply, next) => {
     const url = request.raw.url || request.url || "";
@@ -106,15 +164,52 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
       ? (stageParam as StageName)
       : undefined;
     const stageReadyFlag = validStage ? STAGE_READY_FLAGS[validStage] : undefined;
-    const userMessage = typeof request.body.message === "string" ? request.body.message : "";
+    const branchStage = validStage ?? null;
+    let userMessage = typeof request.body.message === "string" ? request.body.message : "";
+    let leafId: number;
 
+    const rejectTurn = (code: number, error: string) => {
+      app.rateLimiter.releaseChat(sessionId);
+      return reply.code(code).send({ error });
+    };
+
+    // Edits fork a sibling of the original user message; regenerations fork a sibling of the
+    // original reply under the same user message. Either way the new turn becomes the active branch.
     try {
-      await db.insert(chatMessages).values({
-        sessionId,
-        stage: validStage,
-        role: "user",
-        content: userMessage
-      });
+      if (request.body.regenerate_of !== undefined) {
+        const target = await findBranchMessage(sessionId, branchStage, request.body.regenerate_of);
+        if (!target || target.role !== "assistant") {
+          return rejectTurn(404, "CHAT_MESSAGE_NOT_FOUND");
+        }
+        const prompt = target.parentId === null ? undefined : await findBranchMessage(sessionId, branchStage, target.parentId);
+        if (!prompt || prompt.role !== "user") {
+          return rejectTurn(400, "CHAT_REGENERATE_UNSUPPORTED");
+        }
+        leafId = prompt.id;
+        userMessage = prompt.content;
+      } else {
+        let parentId: number | null;
+        if (request.body.edit_of !== undefined) {
+          const target = await findBranchMessage(sessionId, branchStage, request.body.edit_of);
+          if (!target || target.role !== "user") {
+            return rejectTurn(404, "CHAT_MESSAGE_NOT_FOUND");
+          }
+          parentId = target.parentId;
+        } else {
+          parentId = await activeLeafId(sessionId, branchStage);
+        }
+        const [inserted] = await db
+          .insert(chatMessages)
+          .values({
+            sessionId,
+            stage: validStage,
+            role: "user",
+            content: userMessage,
+            parentId
+          })
+          .returning({ id: chatMessages.id });
+        leafId = inserted.id;
+      }
     } catch (error) {
       if ((request as any).chatLockAcquired) {
         app.rateLimiter.releaseChat(sessionId);
@@ -122,15 +217,16 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
       throw error;
     }
 
+    const replayCursor = app.chatReplay.begin(sessionId);
+
     reply.hijack();
     reply.raw.writeHead(200, {
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
-      Connection: "keep-alive"
+      Connection: "keep-alive",
+      [CHAT_REPLAY_CURSOR_HEADER]: String(replayCursor)
     });
 
-    const abortController = createAbortController();
-
     // Write initial keepalive to establish connection
     reply.raw.write(":keepalive\n\n");
 
@@ -141,46 +237,55 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
     }, CHAT_KEEPALIVE_MS);
 
     let closed = false;
+    const abortController = new AbortController();
+    let markFinished: () => void = () => undefined;
+    activeTurns.set(sessionId, {
+      controller: abortController,
+      finished: new Promise<void>((resolve) => {
+        markFinished = resolve;
+      })
+    });
 
     const closeStream = () => {
       if (closed) return;
       closed = true;
       clearInterval(keepalive);
+      app.chatReplay.end(sessionId);
       if (!reply.raw.closed) {
         reply.raw.end();
       }
       app.rateLimiter.releaseChat(sessionId);
+      activeTurns.delete(sessionId);
+      markFinished();
       app.log.info({ sessionId }, "Chat lock released");
     };
 
-    // Safety net: ensure lock is released if connection closes unexpectedly
-    reply.raw.on('close', () => {
+    // A dropped connection does not cancel the turn: generation keeps running so the client can
+    // resume from its Last-Event-ID via GET /api/chat, and the lock is released once the turn ends.
+    // Clients that mean to stop the turn call DELETE /api/chat instead.
+    reply.raw.on("close", () => {
       if (!closed) {
-        app.log.warn({ sessionId }, "Connection closed unexpectedly, releasing lock");
-        closeStream();
+        app.log.warn({ sessionId }, "Connection closed mid-stream, continuing for replay");
+        clearInterval(keepalive);
       }
     });
 
-    reply.raw.on('error', (err) => {
-      app.log.error({ err, sessionId }, "Stream error, releasing lock");
-      if (!closed) {
-        closeStream();
-      }
+    reply.raw.on("error", (err) => {
+      app.log.error({ err, sessionId }, "Stream error, continuing for replay");
     });
 
-    const sendNeedsMore = (payload: NeedsMorePayload) => {
+    // Every frame gets an id and lands in the replay buffer, even after the client disconnected
+    const send = (event: string, data: unknown) => {
+      const entry = app.chatReplay.record(sessionId, event, data);
       if (!reply.raw.closed) {
-        reply.raw.write(formatEvent("stage.needs_more", payload));
+        reply.raw.write(formatEvent(event, data, entry.id));
       }
     };
 
-    const handleClientAbort = () => {
-      abortController.abort();
-      closeStream();
+    const sendNeedsMore = (payload: NeedsMorePayload) => {
+      send("stage.needs_more", payload);
     };
 
-    request.raw.on("aborted", handleClientAbort);
-
     const enableBridge = process.env.NODE_ENV !== "test";
     const stageRequiresConfirmation = enableBridge && !!stageReadyFlag;
     const runStageImmediately = enableBridge && !!validStage && !stageRequiresConfirmation;
@@ -193,29 +298,28 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
         sessionId,
         stage: validStage,
         onEvent: (event) => {
-          if (reply.raw.closed) return;
           switch (event.event) {
             case "assistant.delta": {
               const data = typeof event.data === "string" ? event.data : String(event.data ?? "");
-              reply.raw.write(formatEvent("assistant.delta", data));
+              send("assistant.delta", data);
               break;
             }
             case "doc.updated": {
               const name = (event as any).data?.name;
               if (typeof name === "string" && name) {
-                reply.raw.write(formatEvent("doc.updated", name));
+                send("doc.updated", name);
               }
               break;
             }
             case "stage.ready": {
               const stage = (event as any).data?.stage;
               if (typeof stage === "string" && stage) {
-                reply.raw.write(formatEvent("stage.ready", stage));
+                send("stage.ready", stage);
               }
               break;
             }
             case "stage.needs_more": {
-              reply.raw.write(formatEvent("stage.needs_more", event.data));
+              send("stage.needs_more", event.data);
               break;
             }
             default:
@@ -227,45 +331,63 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
       }).then(() => undefined);
     };
 
+    let assistantTranscript = "";
+    let transcriptPersisted = false;
+    let replyPrompt: PromptRef | undefined;
+
+    // Stores whatever the assistant streamed, once, whether the stream completed or was cut short
+    const persistAssistantTranscript = async () => {
+      if (transcriptPersisted || !assistantTranscript.trim()) return;
+      transcriptPersisted = true;
+      try {
+        await db.insert(chatMessages).values({
+          sessionId,
+          stage: validStage,
+          role: "assistant",
+          content: assistantTranscript.trim(),
+          parentId: leafId,
+          promptId: replyPrompt?.id,
+          promptVersion: replyPrompt?.version
+        });
+      } catch (error) {
+        app.log.error({ err: error }, "Failed to save assistant message");
+      }
+    };
+
     let orchestratorPromise: Promise<void> = Promise.resolve();
     if (runStageImmediately) {
       orchestratorPromise = startOrchestrator();
     }
 
     try {
-      // Load conversation history for this session and stage (includes the message we just saved)
-      const allMessages = await db.query.chatMessages.findMany({
-        where: (table, { eq, and }) => and(
-          eq(table.sessionId, sessionId),
-          validStage ? eq(table.stage, validStage) : eq(table.stage, table.stage)
-        ),
-        orderBy: (table, { asc }) => [asc(table.createdAt)],
-        limit: 100 // Limit to last 100 messages to avoid token limits
-      });
-
-      let specPrompt: string | undefined;
-      if (validStage === "spec") {
-        const ideaDoc = await db.query.docs.findFirst({
-          where: (table, { and, eq }) => and(eq(table.sessionId, sessionId), eq(table.name, "idea_one_pager.md")),
-          columns: { content: true }
-        });
-        specPrompt = buildSpecAssistantPrompt(ideaDoc?.content ?? "");
-      }
-
-      const openAiInput: OpenAIResponseInput = [];
-      if (validStage === "intake") {
-        openAiInput.push({ role: "system", content: INTAKE_ASSISTANT_PROMPT, type: "message" });
-      }
-      if (validStage === "spec" && specPrompt) {
-        openAiInput.push({ role: "system", content: specPrompt, type: "message" });
+      // Load the branch ending at this turn's user message
+      const allMessages = await loadChatBranch(sessionId, branchStage, { leafId });
+
+      const systemPrompt = await buildStageSystemPrompt(sessionId, validStage);
+      const openAiInput: LlmInput = [];
+      if (systemPrompt) {
+        openAiInput.push({ role: "system", content: systemPrompt.text, type: "message" });
+        replyPrompt = { id: systemPrompt.id, version: systemPrompt.version };
       }
 
       if (stageRequiresConfirmation && validStage && shouldTriggerStageRun(validStage, allMessages, stageReadyFlag)) {
         orchestratorPromise = startOrchestrator();
       }
 
-      // Add all conversation history (this includes the message we just saved)
-      for (const msg of allMessages) {
+      // The latest turns go in verbatim (including this turn's user message); older ones as a rolling summary
+      const usageContext = { sessionId, stage: validStage ?? null };
+      const { summary, recent } = await buildChatContext(sessionId, branchStage, allMessages, {
+        reservedTokens: estimateTokens(systemPrompt?.text ?? ""),
+        context: usageContext
+      });
+      if (summary) {
+        openAiInput.push({
+          role: "system",
+          content: renderPrompt("chat.summary_prefix", { summary }).text,
+          type: "message"
+        });
+      }
+      for (const msg of recent) {
         if (msg.role === "user" || msg.role === "assistant") {
           openAiInput.push({
             role: msg.role,
@@ -275,51 +397,29 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
         }
       }
 
-      const response = await generateResponse({
-        input: openAiInput,
-        abortSignal: abortController.signal
-      });
-
-      let assistantTranscript = "";
-      for (const output of response.output ?? []) {
-        const segments = extractAssistantSegments(output);
-        for (const segment of segments) {
-          assistantTranscript += segment;
-          const outbound = stripReadyFlag(segment, stageReadyFlag);
-          if (!reply.raw.closed && outbound) {
-            reply.raw.write(formatEvent("assistant.delta", outbound));
-          }
-        }
-      }
-
-      if (!assistantTranscript.trim()) {
-        const fallbackSegments = extractOutputTextSegments(response);
-        for (const segment of fallbackSegments) {
-          assistantTranscript += segment;
-          const outbound = stripReadyFlag(segment, stageReadyFlag);
-          if (!reply.raw.closed && outbound) {
-            reply.raw.write(formatEvent("assistant.delta", outbound));
-          }
+      const flagFilter = createReadyFlagFilter(stageReadyFlag);
+      const writeDelta = (text: string) => {
+        if (text) {
+          send("assistant.delta", text);
         }
-      }
+      };
 
-      // Save assistant response to database
-      if (assistantTranscript.trim()) {
-        try {
-          await db.insert(chatMessages).values({
-            sessionId,
-            stage: validStage,
-            role: "assistant",
-            content: assistantTranscript.trim()
-          });
-        } catch (error) {
-          app.log.error({ err: error }, "Failed to save assistant message");
-        }
+      for await (const delta of streamResponse({
+        input: openAiInput,
+        abortSignal: abortController.signal,
+        context: usageContext
+      })) {
+        assistantTranscript += delta;
+        writeDelta(flagFilter.push(delta));
       }
+      writeDelta(flagFilter.flush());
 
+      await persistAssistantTranscript();
       await Promise.resolve(orchestratorPromise);
       closeStream();
     } catch (error: any) {
+      await persistAssistantTranscript();
+
       if (isAbortError(error)) {
         try {
           await Promise.resolve(orchestratorPromise);
@@ -349,9 +449,137 @@ const chatRoutes: FastifyPluginCallback = (app, _opts, done) => {
     }
   });
 
+  // Cancels the session's running turn and resolves once its lock is released, so the client can
+  // post its next turn straight away. The partial reply is kept, as with any interrupted stream.
+  app.delete("/api/chat", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const turn = activeTurns.get(sessionId);
+    if (turn) {
+      turn.controller.abort();
+      await turn.finished;
+    }
+    return reply.code(204).send();
+  });
+
+  // Pages backwards from the newest message of the active branch: `cursor` is the `next_cursor` of
+  // the previous page, and each page is returned oldest-first so clients can prepend it as is
+  app.get<{ Querystring: ChatHistoryQuery }>("/api/chat/history", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const stage = request.query.stage as StageName;
+    if (!stageNames.includes(stage)) {
+      return reply.code(400).send({ error: "INVALID_STAGE" });
+    }
+
+    const cursor = request.query.cursor === undefined ? null : parseNonNegativeInt(request.query.cursor);
+    if (cursor === undefined) {
+      return reply.code(400).send({ error: "INVALID_CURSOR" });
+    }
+
+    const requestedLimit =
+      request.query.limit === undefined ? CHAT_HISTORY_DEFAULT_LIMIT : parseNonNegativeInt(request.query.limit);
+    if (!requestedLimit) {
+      return reply.code(400).send({ error: "INVALID_LIMIT" });
+    }
+    const limit = Math.min(requestedLimit, CHAT_HISTORY_MAX_LIMIT);
+
+    // Only the active branch is listed; the cursor is the oldest message of the previous page
+    const { rows: page, hasMore } = await loadChatBranchPage(sessionId, stage, {
+      beforeId: cursor ?? undefined,
+      limit
+    });
+
+    const readyFlag = STAGE_READY_FLAGS[stage];
+    return reply.send({
+      stage,
+      messages: page.map((row) => ({
+        id: row.id,
+        parent_id: row.parentId,
+        role: row.role,
+        content: row.role === "assistant" ? stripReadyFlag(row.content, readyFlag) : row.content,
+        created_at: row.createdAt
+      })),
+      next_cursor: hasMore && page.length > 0 ? String(page[0].id) : null
+    });
+  });
+
+  app.get<{ Querystring: { lastEventId?: string } }>("/api/chat", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const lastEventId = parseNonNegativeInt(request.headers["last-event-id"] ?? request.query.lastEventId);
+    if (lastEventId === undefined) {
+      return reply.code(400).send({ error: "INVALID_LAST_EVENT_ID" });
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+    reply.raw.write(":keepalive\n\n");
+
+    // Part of the stream already left the buffer: tell the client to reload the stored history
+    // rather than replaying a message with its start missing
+    if (app.chatReplay.hasGap(sessionId, lastEventId)) {
+      reply.raw.write(formatEvent("stream.reset", { reason: "REPLAY_GAP" }));
+    }
+
+    for (const entry of app.chatReplay.since(sessionId, lastEventId)) {
+      reply.raw.write(formatEvent(entry.event, entry.data, entry.id));
+    }
+
+    if (!app.chatReplay.isActive(sessionId)) {
+      reply.raw.end();
+      return;
+    }
+
+    // The turn is still running: follow it live until it finishes or the client leaves again
+    const keepalive = setInterval(() => {
+      if (!reply.raw.closed) {
+        reply.raw.write(":keepalive\n\n");
+      }
+    }, CHAT_KEEPALIVE_MS);
+
+    const unsubscribe = app.chatReplay.subscribe(sessionId, (entry) => {
+      if (reply.raw.closed) return;
+      if (!entry) {
+        clearInterval(keepalive);
+        reply.raw.end();
+        return;
+      }
+      reply.raw.write(formatEvent(entry.event, entry.data, entry.id));
+    });
+
+    reply.raw.on("close", () => {
+      clearInterval(keepalive);
+      unsubscribe();
+    });
+  });
+
   done();
 };
 
+async function findBranchMessage(sessionId: string, stage: StageName | null, id: unknown) {
+  if (typeof id !== "number" || !Number.isInteger(id)) {
+    return undefined;
+  }
+  const row = await db.query.chatMessages.findFirst({
+    where: (table, { and, eq }) => and(eq(table.sessionId, sessionId), eq(table.id, id))
+  });
+  return row && row.stage === stage ? row : undefined;
+}
+
 function isTimeoutError(error: any) {
   return error?.status === 408 || error?.code === "ETIMEDOUT" || error?.name === "TimeoutError";
 }
@@ -364,62 +592,94 @@ function isAbortError(error: any) {
   );
 }
 
-function formatEvent(event: string, data: unknown) {
+function formatEvent(event: string, data: unknown, id?: number) {
   const payload = typeof data === "string" ? data : JSON.stringify(data);
   const lines = payload.split(/\r?\n/);
   const dataLines = lines.map((line) => `data: ${line}`);
-  return `event: ${event}\n${dataLines.join("\n")}\n\n`;
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return `${idLine}event: ${event}\n${dataLines.join("\n")}\n\n`;
 }
 
-type OutputContent = Array<{ type: string; text: string }>;
+function parseNonNegativeInt(value: unknown) {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== "string" || !/^\d+$/.test(raw.trim())) {
+    return undefined;
+  }
+  return Number(raw.trim());
+}
 
-type MessageLike = {
-  role: string;
-  content: OutputContent;
+type ReadyFlagFilter = {
+  push: (chunk: string) => string;
+  flush: () => string;
 };
 
-function extractAssistantSegments(output: any) {
-  const segments: string[] = [];
-  const message = getAssistantMessage(output);
-  if (!message) {
-    return segments;
+/**
+ * Removes lines that consist solely of the stage ready flag from a chunked stream.
+ * Text that could still turn into the flag is held back until its line resolves, and the
+ * newline preceding a flag line is dropped so the output matches the unstreamed text.
+ */
+function createReadyFlagFilter(flag?: string): ReadyFlagFilter {
+  if (!flag) {
+    return { push: (chunk) => chunk, flush: () => "" };
   }
 
-  for (const content of message.content) {
-    const text = extractTextFromContent(content);
-    if (text) {
-      segments.push(text);
+  let pending = "";
+  let separator = "";
+  let lineStarted = false;
+
+  const push = (chunk: string) => {
+    let out = "";
+    pending += chunk;
+
+    let idx: number;
+    while ((idx = pending.indexOf("\n")) !== -1) {
+      const line = pending.slice(0, idx).replace(/\r$/, "");
+      pending = pending.slice(idx + 1);
+      if (lineStarted) {
+        out += line;
+        separator = "\n";
+      } else if (line.trim() !== flag) {
+        out += separator + line;
+        separator = "\n";
+      }
+      lineStarted = false;
     }
-  }
-  return segments;
-}
 
-function getAssistantMessage(output: any): MessageLike | undefined {
-  if (output?.type !== "message") {
-    return undefined;
-  }
+    if (lineStarted) {
+      out += pending;
+      pending = "";
+    } else if (pending && !flag.startsWith(pending.trim())) {
+      out += separator + pending;
+      separator = "";
+      pending = "";
+      lineStarted = true;
+    }
 
-  if (output?.message?.role === "assistant") {
-    return output.message as MessageLike;
-  }
+    return out;
+  };
 
-  if (output?.role === "assistant" && Array.isArray(output?.content)) {
-    return { role: output.role, content: output.content } as MessageLike;
-  }
+  const flush = () => {
+    const rest = pending.trim() === flag ? "" : separator + pending;
+    pending = "";
+    separator = "";
+    lineStarted = false;
+    return rest.trim() ? rest : "";
+  };
 
-  return undefined;
+  return { push, flush };
 }
 
-function stripReadyFlag(text: string, flag?: string) {
-  if (!flag) return text;
-  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== flag);
-  if (lines.length === 0) {
-    return "";
-  }
-  return lines.join("\n");
+// Transcripts are stored with the ready flag (readiness gating reads it); clients never see it
+function stripReadyFlag(content: string, flag?: string) {
+  const filter = createReadyFlagFilter(flag);
+  return filter.push(content) + filter.flush();
 }
 
-function shouldTriggerStageRun(stage: StageName, messages: ChatMessageRow[], readyFlag?: string) {
+/**
+ * Whether the operator's latest turn asks the stage writer to run: an explicit draft command, or an
+ * affirmative reply to an assistant turn that ended with the stage's ready flag.
+ */
+export function shouldTriggerStageRun(stage: StageName, messages: ChatMessageRow[], readyFlag?: string) {
   if (messages.length === 0) return false;
   const last = messages[messages.length - 1];
   if (!last || last.role !== "user") return false;
@@ -445,6 +705,17 @@ function isStrongDraftCommand(stage: StageName, text: string) {
   if (stage === "spec") {
     return SPEC_PATTERN.test(text) || text.includes("spec md") || text.includes("spec doc");
   }
+  // Later stages chat about their docs' subject matter ("we write tests before each step of the
+  // plan"), so only a turn that opens with the command counts
+  if (stage === "design") {
+    return DESIGN_COMMAND_PATTERN.test(text);
+  }
+  if (stage === "prompt_plan") {
+    return PROMPT_PLAN_COMMAND_PATTERN.test(text);
+  }
+  if (stage === "agents") {
+    return AGENTS_COMMAND_PATTERN.test(text);
+  }
   return true;
 }
 
@@ -469,25 +740,9 @@ function normalizeUserText(text?: string | null) {
 const DRAFT_VERB_PATTERN = /(draft|generate|write|create|produce|compile|make)/i;
 const ONE_PAGER_PATTERN = /(one[\s-]?pager|idea\s+one\s+pager|idea\s+doc|one\s+pager|idea\s+document|doc|document)/i;
 const SPEC_PATTERN = /(spec\b|specification|spec doc|spec md)/i;
+const DESIGN_COMMAND_PATTERN = /^(please\s+)?(draft|write|generate)\s+(the\s+|a\s+)?design\s+(brief|prompt)\b/i;
+const PROMPT_PLAN_COMMAND_PATTERN = /^(please\s+)?(draft|write|generate)\s+(the\s+|a\s+)?(prompt[\s_-]?)?plan\b/i;
+const AGENTS_COMMAND_PATTERN = /^(please\s+)?(draft|write|generate)\s+(the\s+|an\s+)?(agents(\.md|\s+md)|(agents\s+)?handbook)\b/i;
 const AFFIRMATIVE_RESPONSE_PATTERN = /(\b(yes|yep|yeah|y|sure|ok|okay|sounds good|please do|do it|go ahead|absolutely|let's do it|please)\b)/i;
 
-function extractOutputTextSegments(response: any) {
-  if (!Array.isArray(response?.output_text)) {
-    return [] as string[];
-  }
-  return response.output_text.filter((text: unknown) => typeof text === "string" && text.trim().length > 0);
-}
-
-function extractTextFromContent(content: any) {
-  if (!content) return undefined;
-  if (typeof content === "string") return content;
-  if (typeof content?.text === "string") return content.text;
-  if (Array.isArray(content?.text)) {
-    return content.text.filter((part: unknown) => typeof part === "string").join("");
-  }
-  if (typeof content?.value === "string") return content.value;
-  if (typeof content?.content === "string") return content.content;
-  return undefined;
-}
-
 export default fp(chatRoutes, { name: "chat-routes" });
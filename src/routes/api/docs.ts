@@ -2,9 +2,23 @@ import type { FastifyPluginCallback } from "fastify";
 import fp from "fastify-plugin";
 import { eq, and } from "drizzle-orm";
 import { db } from "../../db/client";
-import { docs } from "../../db/schema";
+import { docNames, type DocName, type StageName } from "../../db/schema";
 import { SESSION_COOKIE_NAME, setSessionCookie } from "../../utils/session-cookie";
-import { orchestrator } from "../../services/orchestrator";
+import { orchestrator, runStage } from "../../services/orchestrator";
+import { getDocVersion, listDocVersions, writeDocVersion } from "../../services/doc-versions";
+import { diffDocs } from "../../utils/doc-diff";
+import { sha256String } from "../../utils/export";
+
+type VersionParams = { name: string; id: string };
+type DiffQuery = { from?: string; to?: string };
+
+// The stage whose writer produces each doc, used to regenerate a doc on demand
+const docStageMap: Record<DocName, StageName> = {
+  "idea_one_pager.md": "intake",
+  "spec.md": "spec",
+  "prompt_plan.md": "prompt_plan",
+  "AGENTS.md": "agents"
+};
 
 const docsRoutes: FastifyPluginCallback = (app, _opts, done) => {
   app.get<{ Params: { name: string } }>("/api/docs/:name", async (request, reply) => {
@@ -47,10 +61,12 @@ const docsRoutes: FastifyPluginCallback = (app, _opts, done) => {
         return reply.code(409).send({ error: "DOC_APPROVED" });
       }
 
-      await db
-        .update(docs)
-        .set({ content: request.body.content, updatedAt: Date.now() })
-        .where(and(eq(docs.sessionId, sessionId), eq(docs.name, doc.name)));
+      await writeDocVersion({
+        sessionId,
+        name: doc.name,
+        content: request.body.content,
+        author: "user"
+      });
 
       await orchestrator.reingest({ sessionId, docName: doc.name });
       setSessionCookie(reply, sessionId);
@@ -58,7 +74,193 @@ const docsRoutes: FastifyPluginCallback = (app, _opts, done) => {
     }
   );
 
+  app.get<{ Params: { name: string } }>("/api/docs/:name/versions", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const name = request.params.name;
+    if (!isDocName(name)) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    const versions = await listDocVersions(sessionId, name);
+    setSessionCookie(reply, sessionId);
+    return reply.send({ name, versions });
+  });
+
+  app.get<{ Params: VersionParams }>("/api/docs/:name/versions/:id", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const name = request.params.name;
+    const id = Number(request.params.id);
+    if (!isDocName(name) || !Number.isInteger(id)) {
+      return reply.code(404).send({ error: "VERSION_NOT_FOUND" });
+    }
+
+    const version = await getDocVersion(sessionId, name, id);
+    if (!version) {
+      return reply.code(404).send({ error: "VERSION_NOT_FOUND" });
+    }
+
+    setSessionCookie(reply, sessionId);
+    return reply.send({
+      id: version.id,
+      name: version.name,
+      author: version.author,
+      stage: version.stage,
+      content_hash: version.contentHash,
+      created_at: version.createdAt,
+      content: version.content
+    });
+  });
+
+  app.post<{ Params: VersionParams }>("/api/docs/:name/versions/:id/restore", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const name = request.params.name;
+    const id = Number(request.params.id);
+    if (!isDocName(name) || !Number.isInteger(id)) {
+      return reply.code(404).send({ error: "VERSION_NOT_FOUND" });
+    }
+
+    const doc = await db.query.docs.findFirst({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.name, name))
+    });
+    if (!doc) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    if (doc.approved) {
+      return reply.code(409).send({ error: "DOC_APPROVED" });
+    }
+
+    const version = await getDocVersion(sessionId, name, id);
+    if (!version) {
+      return reply.code(404).send({ error: "VERSION_NOT_FOUND" });
+    }
+
+    const restored = await writeDocVersion({
+      sessionId,
+      name,
+      content: version.content,
+      author: "restore"
+    });
+
+    await orchestrator.reingest({ sessionId, docName: name });
+    setSessionCookie(reply, sessionId);
+    return reply.send({ ok: true, version_id: restored.versionId, restored_from: version.id });
+  });
+
+  app.get<{ Params: { name: string }; Querystring: DiffQuery }>("/api/docs/:name/diff", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const name = request.params.name;
+    if (!isDocName(name)) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    const fromParam = parseVersionRef(request.query.from);
+    const toParam = parseVersionRef(request.query.to) ?? "current";
+    if (fromParam === null || toParam === null) {
+      return reply.code(400).send({ error: "INVALID_VERSION_REF" });
+    }
+
+    const resolveContent = async (ref: number | "current") => {
+      if (ref === "current") {
+        const doc = await db.query.docs.findFirst({
+          where: (table) => and(eq(table.sessionId, sessionId), eq(table.name, name)),
+          columns: { content: true }
+        });
+        return doc?.content;
+      }
+      return (await getDocVersion(sessionId, name, ref))?.content;
+    };
+
+    const toContent = await resolveContent(toParam);
+    if (toContent === undefined) {
+      return reply.code(404).send({ error: toParam === "current" ? "DOC_NOT_FOUND" : "VERSION_NOT_FOUND" });
+    }
+
+    // Without an explicit base, compare against the newest earlier version that differs from the target
+    let fromRef: number | "current" | null = fromParam ?? null;
+    if (fromRef === null) {
+      const targetHash = sha256String(toContent);
+      const previous = (await listDocVersions(sessionId, name)).find(
+        (version) => version.content_hash !== targetHash && (toParam === "current" || version.id < toParam)
+      );
+      fromRef = previous?.id ?? null;
+    }
+
+    const fromContent = fromRef === null ? "" : await resolveContent(fromRef);
+    if (fromContent === undefined) {
+      return reply.code(404).send({ error: "VERSION_NOT_FOUND" });
+    }
+
+    setSessionCookie(reply, sessionId);
+    return reply.send({ name, from: fromRef, to: toParam, ...diffDocs(fromContent, toContent) });
+  });
+
+  app.post<{ Params: { name: string } }>("/api/docs/:name/regenerate", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const name = request.params.name;
+    if (!isDocName(name)) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    const doc = await db.query.docs.findFirst({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.name, name)),
+      columns: { approved: true }
+    });
+    if (!doc) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    if (doc.approved) {
+      return reply.code(409).send({ error: "DOC_APPROVED" });
+    }
+
+    const result = await runStage({ sessionId, stage: docStageMap[name] });
+    setSessionCookie(reply, sessionId);
+
+    if (result.status !== "ready") {
+      const needsMore = result.events.find((event) => event.event === "stage.needs_more");
+      const reason = (needsMore?.data as { reason?: string } | undefined)?.reason ?? "NEEDS_MORE";
+      return reply.code(422).send({ ok: false, name, reason });
+    }
+
+    return reply.send({ ok: true, name });
+  });
+
   done();
 };
 
+/**
+ * Parses a `from`/`to` query value: a version id, "current" for the live doc, undefined when
+ * omitted, or null when malformed.
+ */
+function parseVersionRef(value?: string): number | "current" | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  if (value === "current") return "current";
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function isDocName(name: string): name is DocName {
+  return (docNames as readonly string[]).includes(name);
+}
+
 export default fp(docsRoutes, { name: "docs-routes" });
@@ -2,7 +2,7 @@ import type { FastifyPluginCallback } from "fastify";
 import fp from "fastify-plugin";
 import { eq } from "drizzle-orm";
 import { db } from "../../db/client";
-import { designs, docs } from "../../db/schema";
+import { designs, docs, sessions, validationWarnings } from "../../db/schema";
 import { SESSION_COOKIE_NAME } from "../../utils/session-cookie";
 import { buildManifest, createZipStream } from "../../utils/export";
 
@@ -13,15 +13,16 @@ const exportRoutes: FastifyPluginCallback = (app, _opts, done) => {
       return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
     }
 
-    const [docRows, designRows] = await Promise.all([
-      db.query.docs.findMany({ where: eq(docs.sessionId, sessionId), columns: { name: true, content: true } }),
+    const [docRows, designRows, warningRows] = await Promise.all([
+      loadBundleDocs(sessionId),
       db.query.designs.findMany({
         where: eq(designs.sessionId, sessionId),
         columns: { path: true, size: true, contentType: true, sha256: true }
-      })
+      }),
+      loadValidationWarnings(sessionId)
     ]);
 
-    const manifest = buildManifest(docRows, designRows as any);
+    const manifest = buildManifest(docRows, designRows as any, warningRows);
     return reply.send(manifest);
   });
 
@@ -36,15 +37,16 @@ const exportRoutes: FastifyPluginCallback = (app, _opts, done) => {
       return reply.code(429).header("Retry-After", String(limit.retryAfterSec)).send({ error: "RATE_LIMIT_EXCEEDED" });
     }
 
-    const [docRows, designRows] = await Promise.all([
-      db.query.docs.findMany({ where: eq(docs.sessionId, sessionId), columns: { name: true, content: true } }),
+    const [docRows, designRows, warningRows] = await Promise.all([
+      loadBundleDocs(sessionId),
       db.query.designs.findMany({
         where: eq(designs.sessionId, sessionId),
         columns: { path: true, size: true, contentType: true, sha256: true, data: true }
-      })
+      }),
+      loadValidationWarnings(sessionId)
     ]);
 
-    const manifest = buildManifest(docRows, designRows);
+    const manifest = buildManifest(docRows, designRows, warningRows);
 
     reply.hijack();
     reply.raw.writeHead(200, {
@@ -67,4 +69,20 @@ const exportRoutes: FastifyPluginCallback = (app, _opts, done) => {
   done();
 };
 
+// The four docs, plus HANDOFF.md once the export stage has written it
+async function loadBundleDocs(sessionId: string) {
+  const [docRows, session] = await Promise.all([
+    db.query.docs.findMany({ where: eq(docs.sessionId, sessionId), columns: { name: true, content: true } }),
+    db.query.sessions.findFirst({ where: eq(sessions.sessionId, sessionId), columns: { handoff: true } })
+  ]);
+  return session?.handoff ? [...docRows, { name: "HANDOFF.md", content: session.handoff }] : docRows;
+}
+
+async function loadValidationWarnings(sessionId: string) {
+  return db.query.validationWarnings.findMany({
+    where: eq(validationWarnings.sessionId, sessionId),
+    columns: { stage: true, code: true, severity: true, message: true, location: true }
+  });
+}
+
 export default fp(exportRoutes, { name: "export-routes" });
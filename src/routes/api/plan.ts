@@ -0,0 +1,102 @@
+import type { FastifyPluginCallback } from "fastify";
+import fp from "fastify-plugin";
+import { and, eq } from "drizzle-orm";
+import { db } from "../../db/client";
+import { docs } from "../../db/schema";
+import { SESSION_COOKIE_NAME, setSessionCookie } from "../../utils/session-cookie";
+import { orchestrator } from "../../services/orchestrator";
+import { writeDocVersion } from "../../services/doc-versions";
+import { parseChecklist, parsePromptPlan, setChecklistItem, summarizeChecklist } from "../../utils/prompt-plan";
+
+type ChecklistToggleBody = { checked?: unknown; text?: unknown };
+
+const planRoutes: FastifyPluginCallback = (app, _opts, done) => {
+  app.get("/api/plan", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const doc = await findPlanDoc(sessionId);
+    if (!doc) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    setSessionCookie(reply, sessionId);
+    return reply.send({ approved: !!doc.approved, ...parsePromptPlan(doc.content) });
+  });
+
+  app.get("/api/plan/checklist", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const doc = await findPlanDoc(sessionId);
+    if (!doc) {
+      return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+    }
+
+    const items = parseChecklist(doc.content);
+    setSessionCookie(reply, sessionId);
+    return reply.send({ items, progress: summarizeChecklist(items) });
+  });
+
+  // Ticking items is how work gets tracked after hand-off, so it stays open once the plan is approved
+  app.patch<{ Params: { index: string }; Body: ChecklistToggleBody | undefined }>(
+    "/api/plan/checklist/:index",
+    async (request, reply) => {
+      const sessionId = request.cookies[SESSION_COOKIE_NAME];
+      if (!sessionId) {
+        return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+      }
+
+      const checked = request.body?.checked;
+      if (typeof checked !== "boolean") {
+        return reply.code(400).send({ error: "CHECKED_REQUIRED" });
+      }
+
+      const doc = await findPlanDoc(sessionId);
+      if (!doc) {
+        return reply.code(404).send({ error: "DOC_NOT_FOUND" });
+      }
+
+      const index = /^\d+$/.test(request.params.index) ? Number(request.params.index) : -1;
+      const item = parseChecklist(doc.content)[index];
+      if (!item) {
+        return reply.code(404).send({ error: "CHECKLIST_ITEM_NOT_FOUND" });
+      }
+
+      // Clients may send the text they saw so a toggle never lands on a different item after an edit
+      if (typeof request.body?.text === "string" && request.body.text !== item.text) {
+        return reply.code(409).send({ error: "CHECKLIST_ITEM_CHANGED" });
+      }
+
+      if (item.checked !== checked) {
+        await writeDocVersion({
+          sessionId,
+          name: "prompt_plan.md",
+          content: setChecklistItem(doc.content, index, checked)!,
+          author: "user",
+          keepStale: true
+        });
+        await orchestrator.reingest({ sessionId, docName: "prompt_plan.md" });
+      }
+
+      const items = parseChecklist((await findPlanDoc(sessionId))?.content ?? "");
+      setSessionCookie(reply, sessionId);
+      return reply.send({ item: items[index], progress: summarizeChecklist(items) });
+    }
+  );
+
+  done();
+};
+
+async function findPlanDoc(sessionId: string) {
+  return db.query.docs.findFirst({
+    where: and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md")),
+    columns: { content: true, approved: true }
+  });
+}
+
+export default fp(planRoutes, { name: "plan-routes" });
@@ -3,13 +3,18 @@ import fp from "fastify-plugin";
 import { eq, sql } from "drizzle-orm";
 import { db } from "../../db/client";
 import { chatMessages, designs, docNames, docs, sessions } from "../../db/schema";
+import { findUpstreamChanges } from "../../services/doc-staleness";
+import { getSessionUsage } from "../../services/llm-usage";
 import { createSessionId, setSessionCookie, SESSION_COOKIE_NAME } from "../../utils/session-cookie";
 
 type SessionResponse = {
   current_stage: string;
   approved: Record<string, boolean>;
   docs: string[];
+  stale_docs: string[];
+  upstream_changed: Record<string, string[]>;
   designs_count: number;
+  finalized_at: number | null;
 };
 
 const sessionRoutes: FastifyPluginCallback = (app, _opts, done) => {
@@ -69,16 +74,17 @@ const sessionRoutes: FastifyPluginCallback = (app, _opts, done) => {
 
     setSessionCookie(reply, sessionId);
 
-    const [docRows, designCount] = await Promise.all([
+    const [docRows, designCount, upstreamChanged] = await Promise.all([
       db.query.docs.findMany({
         where: eq(docs.sessionId, sessionId),
-        columns: { name: true }
+        columns: { name: true, stale: true }
       }),
       db
         .select({ count: sql<number>`count(*)`.mapWith(Number) })
         .from(designs)
         .where(eq(designs.sessionId, sessionId))
-        .then((rows) => rows[0]?.count ?? 0)
+        .then((rows) => rows[0]?.count ?? 0),
+      findUpstreamChanges(sessionId)
     ]);
 
     const response: SessionResponse = {
@@ -91,12 +97,34 @@ const sessionRoutes: FastifyPluginCallback = (app, _opts, done) => {
         agents: !!session.approvedAgents
       },
       docs: docRows.map((doc) => doc.name),
-      designs_count: designCount
+      stale_docs: docRows.filter((doc) => doc.stale || doc.name in upstreamChanged).map((doc) => doc.name),
+      upstream_changed: upstreamChanged,
+      designs_count: designCount,
+      finalized_at: session.finalizedAt ?? null
     };
 
     reply.send(response);
   });
 
+  app.get("/api/session/usage", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const session = await db.query.sessions.findFirst({
+      where: eq(sessions.sessionId, sessionId),
+      columns: { sessionId: true }
+    });
+
+    if (!session) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    setSessionCookie(reply, sessionId);
+    reply.send(await getSessionUsage(sessionId));
+  });
+
   done();
 };
 
@@ -1,10 +1,18 @@
 import type { FastifyPluginCallback } from "fastify";
 import fp from "fastify-plugin";
-import { and, eq } from "drizzle-orm";
-import { stageNames, sessions, docs, type StageName, type DocName } from "../../db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import {
+  stageNames,
+  sessions,
+  docs,
+  stageReopens,
+  validationWarnings,
+  type StageName,
+  type DocName
+} from "../../db/schema";
 import { db } from "../../db/client";
 import { SESSION_COOKIE_NAME, setSessionCookie } from "../../utils/session-cookie";
-import { validateStage } from "../../validators/stage-validator";
+import { checkStage, validateStage, type StageReason } from "../../validators/stage-validator";
 import { orchestrator } from "../../services/orchestrator";
 
 const stageDocMap: Partial<Record<StageName, DocName>> = {
@@ -14,6 +22,21 @@ const stageDocMap: Partial<Record<StageName, DocName>> = {
   agents: "AGENTS.md"
 };
 
+type SessionApprovalField =
+  | "approvedIntake"
+  | "approvedSpec"
+  | "approvedDesign"
+  | "approvedPromptPlan"
+  | "approvedAgents";
+
+const stageApprovalField: Partial<Record<StageName, SessionApprovalField>> = {
+  intake: "approvedIntake",
+  spec: "approvedSpec",
+  design: "approvedDesign",
+  prompt_plan: "approvedPromptPlan",
+  agents: "approvedAgents"
+};
+
 const stagesRoutes: FastifyPluginCallback = (app, _opts, done) => {
   app.post<{ Params: { stage: string } }>("/api/stages/:stage/approve", async (request, reply) => {
     const sessionId = request.cookies[SESSION_COOKIE_NAME];
@@ -52,7 +75,41 @@ const stagesRoutes: FastifyPluginCallback = (app, _opts, done) => {
       return reply.code(422).send(validation);
     }
 
+    // Warnings and infos do not block approval; they are kept on the session for the export manifest
+    const warnings = validation.reasons;
+    const warningsPayload = warnings.length > 0 ? { warnings } : {};
+
+    // Approving export finalizes the session: the export writer runs its consistency pass and
+    // writes HANDOFF.md, and the session becomes read-only
+    if (stage === "export") {
+      const result = await orchestrator.runStage({ sessionId, stage });
+      setSessionCookie(reply, sessionId);
+      if (result.status !== "ready") {
+        const needsMore = result.events.find((event) => event.event === "stage.needs_more");
+        const data = needsMore?.event === "stage.needs_more" ? needsMore.data : undefined;
+        const code = data?.reason ?? "EXPORT_NOT_READY";
+        const reasons: StageReason[] = (data?.details ?? [code]).map((message) => ({
+          code,
+          severity: "error",
+          message
+        }));
+        return reply.code(422).send({ ok: false, reasons });
+      }
+
+      const finalizedAt = Date.now();
+      await db.transaction(async (tx) => {
+        await recordWarnings(tx, sessionId, stage, warnings);
+        await tx
+          .update(sessions)
+          .set({ finalizedAt, lastActivity: finalizedAt })
+          .where(eq(sessions.sessionId, sessionId));
+      });
+      return reply.send({ ok: true, finalized_at: finalizedAt, ...warningsPayload });
+    }
+
     await db.transaction(async (tx) => {
+      await recordWarnings(tx, sessionId, stage, warnings);
+
       const docName = stageDocMap[stage];
       if (docName) {
         await tx
@@ -68,36 +125,183 @@ const stagesRoutes: FastifyPluginCallback = (app, _opts, done) => {
     });
 
     setSessionCookie(reply, sessionId);
-    return reply.send({ ok: true });
+    return reply.send({ ok: true, ...warningsPayload });
+  });
+
+  // Dry run of the approval checks: no context refresh and no semantic pass, so polling it after
+  // every doc edit neither writes to the session nor spends model tokens
+  app.get<{ Params: { stage: string } }>("/api/stages/:stage/validation", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const stage = request.params.stage as StageName;
+    if (!stageNames.includes(stage)) {
+      return reply.code(400).send({ error: "INVALID_STAGE" });
+    }
+
+    const { ok, checks } = await checkStage(sessionId, stage, { semantic: false });
+    setSessionCookie(reply, sessionId);
+    return reply.send({ stage, ok, checks });
   });
 
+  app.get<{ Params: { stage: string } }>("/api/stages/:stage/checkpoints", async (request, reply) => {
+    const sessionId = request.cookies[SESSION_COOKIE_NAME];
+    if (!sessionId) {
+      return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+    }
+
+    const stage = request.params.stage as StageName;
+    if (!stageNames.includes(stage)) {
+      return reply.code(400).send({ error: "INVALID_STAGE" });
+    }
+
+    const checkpoints = await orchestrator.listCheckpoints(sessionId, stage);
+    setSessionCookie(reply, sessionId);
+    return reply.send({ stage, checkpoints });
+  });
+
+  app.post<{ Params: { stage: string }; Body: { reason?: string } | undefined }>(
+    "/api/stages/:stage/reopen",
+    async (request, reply) => {
+      const sessionId = request.cookies[SESSION_COOKIE_NAME];
+      if (!sessionId) {
+        return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+      }
+
+      const stage = request.params.stage as StageName;
+      if (!stageNames.includes(stage)) {
+        return reply.code(400).send({ error: "INVALID_STAGE" });
+      }
+
+      const reason = typeof request.body?.reason === "string" ? request.body.reason.trim() : "";
+      if (!reason) {
+        return reply.code(400).send({ error: "REASON_REQUIRED" });
+      }
+
+      const session = await db.query.sessions.findFirst({
+        where: eq(sessions.sessionId, sessionId)
+      });
+
+      if (!session) {
+        return reply.code(401).send({ error: "SESSION_NOT_FOUND" });
+      }
+
+      // Only stages that were already approved (i.e. behind the current stage) can be reopened
+      const currentStage = session.currentStage as StageName;
+      if (stageNames.indexOf(stage) >= stageNames.indexOf(currentStage)) {
+        setSessionCookie(reply, sessionId);
+        return reply.code(409).send({ error: "STAGE_NOT_APPROVED" });
+      }
+
+      const reopenedStages = stageNames.slice(stageNames.indexOf(stage));
+      const unlockedDocs = docsForStages(reopenedStages);
+      const downstreamDocs = docsForStages(reopenedStages.slice(1));
+
+      const staleDocs = await db.transaction(async (tx) => {
+        if (unlockedDocs.length > 0) {
+          await tx
+            .update(docs)
+            .set({ approved: false })
+            .where(and(eq(docs.sessionId, sessionId), inArray(docs.name, unlockedDocs)));
+        }
+
+        const withContent =
+          downstreamDocs.length > 0
+            ? await tx.query.docs.findMany({
+                where: and(eq(docs.sessionId, sessionId), inArray(docs.name, downstreamDocs)),
+                columns: { name: true, content: true }
+              })
+            : [];
+        const stale = withContent.filter((doc) => doc.content.trim().length > 0).map((doc) => doc.name);
+        if (stale.length > 0) {
+          await tx
+            .update(docs)
+            .set({ stale: true })
+            .where(and(eq(docs.sessionId, sessionId), inArray(docs.name, stale)));
+        }
+
+        await tx
+          .update(sessions)
+          .set(buildReopenUpdates(stage, reopenedStages))
+          .where(eq(sessions.sessionId, sessionId));
+
+        // Reopened stages get re-validated on their next approval
+        await tx
+          .delete(validationWarnings)
+          .where(and(eq(validationWarnings.sessionId, sessionId), inArray(validationWarnings.stage, reopenedStages)));
+
+        await tx.insert(stageReopens).values({
+          sessionId,
+          stage,
+          fromStage: currentStage,
+          reason
+        });
+
+        return stale;
+      });
+
+      try {
+        await orchestrator.refreshContext({ sessionId, stage, phase: "stage_start" });
+      } catch (err) {
+        request.log.warn({ err }, "refreshContext failed after reopen");
+      }
+
+      setSessionCookie(reply, sessionId);
+      return reply.send({ ok: true, current_stage: stage, stale_docs: staleDocs });
+    }
+  );
+
   done();
 };
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function recordWarnings(tx: Transaction, sessionId: string, stage: StageName, warnings: StageReason[]) {
+  await tx
+    .delete(validationWarnings)
+    .where(and(eq(validationWarnings.sessionId, sessionId), eq(validationWarnings.stage, stage)));
+  if (warnings.length === 0) return;
+  await tx.insert(validationWarnings).values(
+    warnings.map((warning) => ({
+      sessionId,
+      stage,
+      code: warning.code,
+      severity: warning.severity,
+      message: warning.message,
+      location: warning.location
+    }))
+  );
+}
+
+function docsForStages(stages: StageName[]) {
+  return stages.map((stage) => stageDocMap[stage]).filter((name): name is DocName => !!name);
+}
+
+function buildReopenUpdates(stage: StageName, reopenedStages: StageName[]): Partial<typeof sessions.$inferInsert> {
+  const updates: Partial<typeof sessions.$inferInsert> = {
+    lastActivity: Date.now(),
+    currentStage: stage
+  };
+  for (const reopened of reopenedStages) {
+    const field = stageApprovalField[reopened];
+    if (field) {
+      updates[field] = false;
+    }
+  }
+  return updates;
+}
+
 function buildSessionUpdates(stage: StageName): Partial<typeof sessions.$inferInsert> {
   const updates: Partial<typeof sessions.$inferInsert> = {
     lastActivity: Date.now(),
     currentStage: nextStage(stage)
   };
 
-  switch (stage) {
-    case "intake":
-      updates.approvedIntake = true;
-      break;
-    case "spec":
-      updates.approvedSpec = true;
-      break;
-    case "design":
-      updates.approvedDesign = true;
-      break;
-    case "prompt_plan":
-      updates.approvedPromptPlan = true;
-      break;
-    case "agents":
-      updates.approvedAgents = true;
-      break;
-    default:
-      break;
+  const field = stageApprovalField[stage];
+  if (field) {
+    updates[field] = true;
   }
 
   return updates;
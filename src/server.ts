@@ -3,15 +3,20 @@ import fastifyCookie from "@fastify/cookie";
 import next from "next";
 import type { NextServer } from "next/dist/server/next";
 import { env } from "./env";
+import { getPromptTemplates } from "./libs/prompts";
+import { getStageRules } from "./validators/stage-rules";
 import securityHeadersPlugin from "./plugins/security";
 import errorHandlerPlugin from "./plugins/error-handler";
 import rateLimitPlugin from "./plugins/rate-limit";
+import chatReplayPlugin from "./plugins/chat-replay";
+import sessionLockPlugin from "./plugins/session-lock";
 import sessionRoutes from "./routes/api/session";
 import docsRoutes from "./routes/api/docs";
 import stagesRoutes from "./routes/api/stages";
 import chatRoutes from "./routes/api/chat";
 import designsRoutes from "./routes/api/designs";
 import exportRoutes from "./routes/api/export";
+import planRoutes from "./routes/api/plan";
 
 export type NextRequestHandler = ReturnType<NextServer["getRequestHandler"]>;
 
@@ -33,11 +38,14 @@ export function createApp({ nextHandler, dev }: CreateAppOptions): FastifyInstan
   app.register(securityHeadersPlugin);
   app.register(errorHandlerPlugin);
   app.register(rateLimitPlugin);
+  app.register(chatReplayPlugin);
+  app.register(sessionLockPlugin);
   app.register(sessionRoutes);
   app.register(docsRoutes);
   app.register(stagesRoutes);
   app.register(designsRoutes);
   app.register(exportRoutes);
+  app.register(planRoutes);
   app.register(chatRoutes);
 
   app.get("/api/health", async (_, reply) => {
@@ -68,6 +76,10 @@ export type BuiltServer = {
 
 export async function buildServer(): Promise<BuiltServer> {
   const dev = env.NODE_ENV !== "production";
+  // Load the prompt templates and stage rules up front so a bad PROMPTS_PATH or VALIDATION_RULES_PATH
+  // override fails the boot, not a chat turn or an approval
+  getPromptTemplates();
+  getStageRules();
   const nextApp = next({ dev, dir: "." });
   await nextApp.prepare();
   const app = createApp({ nextHandler: nextApp.getRequestHandler(), dev });
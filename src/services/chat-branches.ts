@@ -0,0 +1,97 @@
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { chatMessages, type StageName } from "../db/schema";
+
+export type ChatMessageRow = typeof chatMessages.$inferSelect;
+
+/**
+ * A stage's conversation is a tree: editing a user message or regenerating a reply adds a sibling
+ * under the same parent. The active branch is the path from the root to the newest message, so the
+ * latest edit or regeneration always wins without any extra bookkeeping.
+ */
+export async function loadChatBranch(
+  sessionId: string,
+  stage: StageName | null,
+  options: { leafId?: number } = {}
+): Promise<ChatMessageRow[]> {
+  const rows = await db.query.chatMessages.findMany({
+    where: and(eq(chatMessages.sessionId, sessionId), stageFilter(stage)),
+    orderBy: [desc(chatMessages.id)]
+  });
+  return resolveBranch(rows, options.leafId);
+}
+
+/** Walks parent links from `leafId` (default: the newest row) and returns the path oldest-first. */
+export function resolveBranch(rows: ChatMessageRow[], leafId?: number): ChatMessageRow[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const newest = rows.reduce<ChatMessageRow | undefined>((latest, row) => (!latest || row.id > latest.id ? row : latest), undefined);
+
+  const branch: ChatMessageRow[] = [];
+  let current = leafId === undefined ? newest : byId.get(leafId);
+  while (current) {
+    branch.push(current);
+    current = current.parentId === null ? undefined : byId.get(current.parentId);
+  }
+  return branch.reverse();
+}
+
+/**
+ * One page of the active branch, oldest-first: up to `limit` messages ending at the newest one, or
+ * just before `beforeId` when paging back. Parent links are followed in a recursive query capped
+ * at `limit + 1` rows, so a long conversation is never loaded whole; the extra row sets `hasMore`.
+ */
+export async function loadChatBranchPage(
+  sessionId: string,
+  stage: StageName | null,
+  options: { beforeId?: number; limit: number }
+): Promise<{ rows: ChatMessageRow[]; hasMore: boolean }> {
+  let startId: number | null;
+  if (options.beforeId === undefined) {
+    startId = await activeLeafId(sessionId, stage);
+  } else {
+    const cursor = await db.query.chatMessages.findFirst({
+      where: and(eq(chatMessages.sessionId, sessionId), eq(chatMessages.id, options.beforeId), stageFilter(stage)),
+      columns: { parentId: true }
+    });
+    startId = cursor?.parentId ?? null;
+  }
+  if (startId === null) {
+    return { rows: [], hasMore: false };
+  }
+
+  const path = await db.all<{ id: number }>(sql`
+    WITH RECURSIVE branch(id, parent_id, depth) AS (
+      SELECT id, parent_id, 1 FROM ${chatMessages} WHERE id = ${startId} AND session_id = ${sessionId}
+      UNION ALL
+      SELECT m.id, m.parent_id, branch.depth + 1
+      FROM ${chatMessages} m JOIN branch ON m.id = branch.parent_id
+      WHERE m.session_id = ${sessionId} AND branch.depth <= ${options.limit}
+    )
+    SELECT id FROM branch
+  `);
+  const ids = path.slice(0, options.limit).map((row) => row.id);
+  if (ids.length === 0) {
+    return { rows: [], hasMore: false };
+  }
+
+  // Ids grow along a branch, so id order is branch order
+  const rows = await db.query.chatMessages.findMany({
+    where: inArray(chatMessages.id, ids),
+    orderBy: [asc(chatMessages.id)]
+  });
+  return { rows, hasMore: path.length > options.limit };
+}
+
+/** Id of the message new turns attach to: the tip of the active branch. */
+export async function activeLeafId(sessionId: string, stage: StageName | null): Promise<number | null> {
+  const latest = await db.query.chatMessages.findFirst({
+    where: and(eq(chatMessages.sessionId, sessionId), stageFilter(stage)),
+    orderBy: [desc(chatMessages.id)],
+    columns: { id: true }
+  });
+  return latest?.id ?? null;
+}
+
+function stageFilter(stage: StageName | null) {
+  return stage === null ? isNull(chatMessages.stage) : eq(chatMessages.stage, stage);
+}
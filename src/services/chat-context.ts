@@ -0,0 +1,149 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { chatSummaries, type StageName } from "../db/schema";
+import { env } from "../env";
+import { generateResponse, type LlmCallContext, type LlmInput } from "../libs/llm";
+import { renderPrompt } from "../libs/prompts";
+import type { ChatMessageRow } from "./chat-branches";
+
+const DEFAULT_CONTEXT_TOKENS = 12_000;
+// Room kept for the rolling summary itself when deciding how many turns stay verbatim
+const SUMMARY_TOKEN_SHARE = 0.2;
+const CHARS_PER_TOKEN = 4;
+
+export type ChatContext = {
+  /** Rolling summary of the turns that no longer fit verbatim. */
+  summary?: string;
+  /** Latest turns of the branch, oldest-first, exactly as stored. */
+  recent: ChatMessageRow[];
+};
+
+export type ChatContextOptions = {
+  /** Total tokens for the conversation plus `reservedTokens`; defaults to CHAT_CONTEXT_TOKENS. */
+  budget?: number;
+  /** Tokens the caller sends alongside the conversation, e.g. its system prompt and reference docs. */
+  reservedTokens?: number;
+  /** Attributes the summarization calls. */
+  context?: LlmCallContext;
+};
+
+/** Rough token count (about four characters per token); good enough to keep prompts in budget. */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fits a stage conversation into a token budget. The newest turns are kept verbatim; older turns
+ * are folded into a summary persisted per session and stage, so each call only summarizes the
+ * turns that fell out of the window since the last one. A summary is reused only while the last
+ * message it covers is still on `branch`; after an edit forks earlier than that it is rebuilt.
+ * When the model is unavailable the older turns are dropped rather than failing the caller.
+ */
+export async function buildChatContext(
+  sessionId: string,
+  stage: StageName | null,
+  branch: ChatMessageRow[],
+  options: ChatContextOptions = {}
+): Promise<ChatContext> {
+  const budget = options.budget ?? env.CHAT_CONTEXT_TOKENS ?? DEFAULT_CONTEXT_TOKENS;
+  const available = budget - (options.reservedTokens ?? 0);
+  const recent = latestTurnsWithin(branch, Math.floor(available * (1 - SUMMARY_TOKEN_SHARE)));
+  const older = branch.slice(0, branch.length - recent.length);
+  if (older.length === 0 || stage === null) {
+    return { recent };
+  }
+
+  const stored = await db.query.chatSummaries.findFirst({
+    where: and(eq(chatSummaries.sessionId, sessionId), eq(chatSummaries.stage, stage))
+  });
+  const coveredIndex = stored ? older.findIndex((row) => row.id === stored.throughMessageId) : -1;
+  const previous = coveredIndex === -1 ? undefined : stored?.content;
+  const pending = older.slice(coveredIndex + 1);
+  if (pending.length === 0) {
+    return { summary: previous, recent };
+  }
+
+  let summary = previous;
+  // Fold the pending turns in chunks that each fit the budget, oldest first
+  for (const chunk of chunkTurns(pending, Math.max(1, available))) {
+    const next = await summarizeTurns(summary, chunk, options.context).catch(() => undefined);
+    if (!next) {
+      return { summary: previous, recent };
+    }
+    summary = next;
+  }
+
+  if (!summary) {
+    return { recent };
+  }
+
+  const throughMessageId = pending[pending.length - 1].id;
+  await db
+    .insert(chatSummaries)
+    .values({ sessionId, stage, content: summary, throughMessageId })
+    .onConflictDoUpdate({
+      target: [chatSummaries.sessionId, chatSummaries.stage],
+      set: { content: summary, throughMessageId, updatedAt: Date.now() }
+    });
+  return { summary, recent };
+}
+
+/** One line per turn, as the summarizer and stage writers read transcripts. */
+export function formatTurns(turns: ChatMessageRow[]) {
+  return turns.map((turn) => `${turn.role.toUpperCase()}: ${turn.content.replace(/\s+/g, " ").trim()}`).join("\n");
+}
+
+// Always keeps the newest turn, even when it alone exceeds the limit
+function latestTurnsWithin(branch: ChatMessageRow[], limit: number) {
+  let used = 0;
+  let start = branch.length;
+  while (start > 0) {
+    const cost = estimateTokens(branch[start - 1].content);
+    if (start < branch.length && used + cost > limit) break;
+    used += cost;
+    start -= 1;
+  }
+  return branch.slice(start);
+}
+
+function chunkTurns(turns: ChatMessageRow[], limit: number) {
+  const chunks: ChatMessageRow[][] = [];
+  let current: ChatMessageRow[] = [];
+  let used = 0;
+  for (const turn of turns) {
+    const cost = estimateTokens(turn.content);
+    if (current.length > 0 && used + cost > limit) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(turn);
+    used += cost;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+async function summarizeTurns(previous: string | undefined, turns: ChatMessageRow[], context?: LlmCallContext) {
+  const input: LlmInput = [
+    {
+      role: "system",
+      type: "message",
+      content: renderPrompt("chat.summary").text
+    },
+    {
+      role: "user",
+      type: "message",
+      content: [
+        "EXISTING SUMMARY:",
+        previous?.trim() || "(none yet)",
+        "",
+        "NEW TURNS (oldest first):",
+        formatTurns(turns)
+      ].join("\n")
+    }
+  ];
+
+  const response = await generateResponse({ input, context });
+  return response.text?.trim() || undefined;
+}
@@ -0,0 +1,41 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { docs, type DocName } from "../db/schema";
+import { sha256String } from "../utils/export";
+
+export type UpstreamChanges = Partial<Record<DocName, DocName[]>>;
+
+/**
+ * For every generated doc in the session, lists the upstream docs whose content no longer
+ * matches the hash recorded when the doc was written. Docs with no recorded sources (never
+ * generated, or written before source tracking) are never reported.
+ */
+export async function findUpstreamChanges(sessionId: string): Promise<UpstreamChanges> {
+  const rows = await db.query.docs.findMany({
+    where: eq(docs.sessionId, sessionId),
+    columns: { name: true, content: true, sourceHashes: true }
+  });
+
+  const currentHashes = new Map(rows.map((row) => [row.name, sourceHash(row.content)]));
+  const changes: UpstreamChanges = {};
+
+  for (const row of rows) {
+    if (!row.sourceHashes) continue;
+    const changed = (Object.entries(row.sourceHashes) as Array<[DocName, string]>)
+      .filter(([upstream, hash]) => currentHashes.get(upstream) !== hash)
+      .map(([upstream]) => upstream);
+    if (changed.length > 0) {
+      changes[row.name] = changed;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Hash recorded for a doc when it is used as an upstream source. Checkbox state is ignored so
+ * ticking prompt_plan.md items as work progresses does not flag AGENTS.md as stale.
+ */
+export function sourceHash(content: string) {
+  return sha256String(content.replace(/^(\s*[-*+]\s+)\[[xX]\]/gm, "$1[ ]"));
+}
@@ -0,0 +1,121 @@
+import { and, desc, eq } from "drizzle-orm";
+import { db } from "../db/client";
+import {
+  docVersions,
+  docs,
+  type DocName,
+  type DocSourceHashes,
+  type DocVersionAuthor,
+  type StageName
+} from "../db/schema";
+import type { PromptRef } from "../libs/prompts";
+import { sha256String } from "../utils/export";
+
+export type DocWriteInput = {
+  sessionId: string;
+  name: DocName;
+  content: string;
+  author: DocVersionAuthor;
+  stage?: StageName;
+  /** Hashes of the upstream docs the content was derived from; only stage writers set these. */
+  sources?: DocSourceHashes;
+  /** Keeps the doc's stale flag, for edits (like checklist toggles) that do not revise its content. */
+  keepStale?: boolean;
+  /** Template the content was drafted with; unset for edits and template fallbacks. */
+  prompt?: PromptRef;
+};
+
+export type DocVersionSummary = {
+  id: number;
+  author: DocVersionAuthor;
+  stage: StageName | null;
+  prompt_id: string | null;
+  prompt_version: number | null;
+  content_hash: string;
+  size: number;
+  created_at: number;
+};
+
+/**
+ * Writes a doc and records the new content in doc_versions in one transaction. If the doc's
+ * current content was never captured (e.g. written before versioning existed), it is
+ * snapshotted first so the overwrite can always be undone.
+ */
+export async function writeDocVersion(input: DocWriteInput) {
+  const now = Date.now();
+  const contentHash = sha256String(input.content);
+
+  return db.transaction(async (tx) => {
+    const current = await tx.query.docs.findFirst({
+      where: and(eq(docs.sessionId, input.sessionId), eq(docs.name, input.name)),
+      columns: { content: true }
+    });
+    const latest = await tx.query.docVersions.findFirst({
+      where: and(eq(docVersions.sessionId, input.sessionId), eq(docVersions.name, input.name)),
+      orderBy: [desc(docVersions.id)],
+      columns: { contentHash: true }
+    });
+
+    if (current && current.content.trim() && sha256String(current.content) !== latest?.contentHash) {
+      await tx.insert(docVersions).values({
+        sessionId: input.sessionId,
+        name: input.name,
+        content: current.content,
+        contentHash: sha256String(current.content),
+        author: "user",
+        createdAt: now
+      });
+    }
+
+    await tx
+      .update(docs)
+      .set({
+        content: input.content,
+        ...(input.keepStale ? {} : { stale: false }),
+        updatedAt: now,
+        ...(input.sources ? { sourceHashes: input.sources } : {})
+      })
+      .where(and(eq(docs.sessionId, input.sessionId), eq(docs.name, input.name)));
+
+    const [version] = await tx
+      .insert(docVersions)
+      .values({
+        sessionId: input.sessionId,
+        name: input.name,
+        content: input.content,
+        contentHash,
+        author: input.author,
+        stage: input.stage,
+        promptId: input.prompt?.id,
+        promptVersion: input.prompt?.version,
+        createdAt: now
+      })
+      .returning({ id: docVersions.id });
+
+    return { versionId: version.id, contentHash };
+  });
+}
+
+export async function listDocVersions(sessionId: string, name: DocName): Promise<DocVersionSummary[]> {
+  const rows = await db.query.docVersions.findMany({
+    where: and(eq(docVersions.sessionId, sessionId), eq(docVersions.name, name)),
+    orderBy: [desc(docVersions.id)]
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    author: row.author,
+    stage: row.stage,
+    prompt_id: row.promptId,
+    prompt_version: row.promptVersion,
+    content_hash: row.contentHash,
+    size: Buffer.byteLength(row.content, "utf8"),
+    created_at: row.createdAt
+  }));
+}
+
+export async function getDocVersion(sessionId: string, name: DocName, id: number) {
+  return db.query.docVersions.findFirst({
+    where: and(eq(docVersions.sessionId, sessionId), eq(docVersions.name, name), eq(docVersions.id, id))
+  });
+}
@@ -0,0 +1,99 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { llmCalls, type LlmCallKind, type StageName } from "../db/schema";
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LlmCallRecord = LlmUsage & {
+  sessionId: string;
+  stage?: StageName | null;
+  kind: LlmCallKind;
+  model: string;
+  latencyMs: number;
+  ok: boolean;
+};
+
+export type UsageTotals = {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+};
+
+export type SessionUsage = {
+  totals: UsageTotals;
+  by_stage: Array<UsageTotals & { stage: StageName | null }>;
+};
+
+/** USD per million tokens, from the OpenAI pricing page. Unknown models are recorded without a cost. */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o4-mini": { input: 1.1, output: 4.4 }
+};
+
+export function estimateCostUsd(model: string, usage: LlmUsage) {
+  // Dated snapshots (e.g. gpt-4o-mini-2024-07-18) share their base model's pricing
+  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")];
+  if (!pricing) return null;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+export async function recordLlmCall(record: LlmCallRecord) {
+  await db.insert(llmCalls).values({
+    sessionId: record.sessionId,
+    stage: record.stage ?? null,
+    kind: record.kind,
+    model: record.model,
+    inputTokens: record.inputTokens,
+    outputTokens: record.outputTokens,
+    latencyMs: Math.round(record.latencyMs),
+    costUsd: estimateCostUsd(record.model, record),
+    ok: record.ok
+  });
+}
+
+export async function getSessionUsage(sessionId: string): Promise<SessionUsage> {
+  const rows = await db
+    .select({
+      stage: llmCalls.stage,
+      calls: sql<number>`count(*)`.mapWith(Number),
+      inputTokens: sql<number>`coalesce(sum(${llmCalls.inputTokens}), 0)`.mapWith(Number),
+      outputTokens: sql<number>`coalesce(sum(${llmCalls.outputTokens}), 0)`.mapWith(Number),
+      costUsd: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)`.mapWith(Number)
+    })
+    .from(llmCalls)
+    .where(eq(llmCalls.sessionId, sessionId))
+    .groupBy(llmCalls.stage);
+
+  const byStage = rows.map((row) => ({ stage: row.stage, ...toTotals(row) }));
+  const totals = byStage.reduce<UsageTotals>(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      input_tokens: sum.input_tokens + row.input_tokens,
+      output_tokens: sum.output_tokens + row.output_tokens,
+      total_tokens: sum.total_tokens + row.total_tokens,
+      cost_usd: sum.cost_usd + row.cost_usd
+    }),
+    { calls: 0, input_tokens: 0, output_tokens: 0, total_tokens: 0, cost_usd: 0 }
+  );
+
+  return { totals, by_stage: byStage };
+}
+
+function toTotals(row: { calls: number; inputTokens: number; outputTokens: number; costUsd: number }): UsageTotals {
+  return {
+    calls: row.calls,
+    input_tokens: row.inputTokens,
+    output_tokens: row.outputTokens,
+    total_tokens: row.inputTokens + row.outputTokens,
+    cost_usd: row.costUsd
+  };
+}
@@ -1,9 +1,10 @@
 import { createStageGraph } from "../orchestrator/graph";
 import { DefaultStageDriver } from "../orchestrator/driver";
-import { MAX_STAGE_LLM_CALLS } from "../orchestrator/constants";
+import { MAX_STAGE_LLM_CALLS, MAX_STAGE_TOKENS } from "../orchestrator/constants";
 import type { RunnableConfig } from "@langchain/core/runnables";
 import type {
   StageEvent,
+  StageGraphState,
   StageName,
   StageReingestHandler,
   StageReingestInput,
@@ -37,7 +38,25 @@ export type StageRunOptions = {
   onEvent?: (event: StageEvent) => void;
   reingest?: StageReingestHandler;
   budgetLimit?: number;
+  /** Optional cap on input + output tokens per run, on top of the call-count budget. */
+  tokenBudget?: number;
   driver?: StageDriver;
+  /**
+   * Continue from stored graph state instead of starting a fresh run: "latest" picks up an
+   * interrupted run where it stopped, any other value replays from that checkpoint id.
+   */
+  resumeFrom?: string;
+};
+
+export type StageCheckpointSummary = {
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  step: number | null;
+  source: string | null;
+  next: string[];
+  status: StageStatus | null;
+  llm_calls: number | null;
+  created_at: string | null;
 };
 
 export type StageRunResult = {
@@ -55,21 +74,27 @@ export async function runStage(options: StageRunOptions): Promise<StageRunResult
     status: "running" as StageStatus
   };
 
+  const checkpointId = options.resumeFrom && options.resumeFrom !== "latest" ? options.resumeFrom : undefined;
   const runConfig: RunnableConfig = {
     configurable: {
-      thread_id: `${options.sessionId}:${options.stage}`,
-      checkpoint_id: `${options.sessionId}:${options.stage}`,
+      thread_id: stageThreadId(options.sessionId, options.stage),
+      ...(checkpointId ? { checkpoint_id: checkpointId } : {}),
       runtime: {
         sessionId: options.sessionId,
         driver: options.driver ?? defaultDriver,
         reingest: options.reingest ?? refreshContext,
         onEvent: options.onEvent,
-        budgetLimit: options.budgetLimit ?? MAX_STAGE_LLM_CALLS
+        budgetLimit: options.budgetLimit ?? MAX_STAGE_LLM_CALLS,
+        tokenBudget: options.tokenBudget ?? MAX_STAGE_TOKENS
       }
     }
   };
 
-  const result = await stageGraph.withConfig(runConfig).invoke(initialState);
+  // Checkpoints are saved before each step starts rather than in the background: stage writers
+  // open their own libsql transactions, and a concurrent checkpoint write would hit SQLITE_BUSY
+  const result = await stageGraph
+    .withConfig(runConfig)
+    .invoke(options.resumeFrom ? null : initialState, { durability: "sync" });
 
   return {
     llmCalls: result.llmCalls ?? 0,
@@ -78,8 +103,34 @@ export async function runStage(options: StageRunOptions): Promise<StageRunResult
   };
 }
 
+/** Lists the stored checkpoints for a session's stage thread, newest first. */
+export async function listStageCheckpoints(sessionId: string, stage: StageName): Promise<StageCheckpointSummary[]> {
+  const checkpoints: StageCheckpointSummary[] = [];
+  for await (const snapshot of stageGraph.getStateHistory({
+    configurable: { thread_id: stageThreadId(sessionId, stage) }
+  })) {
+    const values = snapshot.values as Partial<StageGraphState>;
+    checkpoints.push({
+      checkpoint_id: snapshot.config.configurable?.checkpoint_id,
+      parent_checkpoint_id: snapshot.parentConfig?.configurable?.checkpoint_id ?? null,
+      step: snapshot.metadata?.step ?? null,
+      source: snapshot.metadata?.source ?? null,
+      next: [...snapshot.next],
+      status: values.status ?? null,
+      llm_calls: values.llmCalls ?? null,
+      created_at: snapshot.createdAt ?? null
+    });
+  }
+  return checkpoints;
+}
+
+function stageThreadId(sessionId: string, stage: StageName) {
+  return `${sessionId}:${stage}`;
+}
+
 export const orchestrator = {
   reingest: reingestDoc,
   refreshContext,
-  runStage
+  runStage,
+  listCheckpoints: listStageCheckpoints
 };
@@ -0,0 +1,175 @@
+export type SectionMap = Record<string, string>;
+
+export type DiffLineType = "added" | "removed" | "context";
+
+export type DiffLine = {
+  type: DiffLineType;
+  text: string;
+  section: string | null;
+};
+
+export type SectionChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type SectionChange = {
+  heading: string;
+  status: SectionChangeStatus;
+};
+
+export type DocDiff = {
+  sections: SectionChange[];
+  lines: DiffLine[];
+  stats: { added: number; removed: number };
+};
+
+const HEADING_LINE = /^#{1,6}\s+(.+?)\s*$/;
+// The LCS table holds one cell per pair of differing lines; past this (about 16 MB) the middle
+// section is reported as replaced wholesale instead
+const MAX_LCS_CELLS = 4_000_000;
+
+export function extractSections(content: string) {
+  const map: SectionMap = {};
+  const headingRegex = /^#{1,6}\s+(.+?)\s*$/gim;
+  let match: RegExpExecArray | null;
+  while ((match = headingRegex.exec(content))) {
+    const title = match[1].trim();
+    const start = match.index + match[0].length;
+    const nextMatchIndex = content.slice(start).search(/^#{1,6}\s+/m);
+    const end = nextMatchIndex === -1 ? content.length : start + nextMatchIndex;
+    map[title] = content.slice(start, end).trim();
+  }
+  return map;
+}
+
+/**
+ * Line diff between two Markdown docs. Each line is tagged with the heading it sits under
+ * (same parsing as extractSections), and sections are classified by comparing their bodies.
+ */
+export function diffDocs(from: string, to: string): DocDiff {
+  const before = splitLines(from);
+  const after = splitLines(to);
+  const ops = diffLines(before, after);
+
+  const beforeSections = sectionLabels(before);
+  const afterSections = sectionLabels(after);
+  const lines: DiffLine[] = ops.map((op) => ({
+    type: op.type,
+    text: op.type === "removed" ? before[op.beforeIndex!] : after[op.afterIndex!],
+    section: op.type === "removed" ? beforeSections[op.beforeIndex!] : afterSections[op.afterIndex!]
+  }));
+
+  return {
+    sections: compareSections(extractSections(from), extractSections(to)),
+    lines,
+    stats: {
+      added: lines.filter((line) => line.type === "added").length,
+      removed: lines.filter((line) => line.type === "removed").length
+    }
+  };
+}
+
+function compareSections(before: SectionMap, after: SectionMap): SectionChange[] {
+  const changes: SectionChange[] = [];
+  for (const [heading, body] of Object.entries(after)) {
+    if (!(heading in before)) {
+      changes.push({ heading, status: "added" });
+    } else {
+      changes.push({ heading, status: before[heading] === body ? "unchanged" : "changed" });
+    }
+  }
+  for (const heading of Object.keys(before)) {
+    if (!(heading in after)) {
+      changes.push({ heading, status: "removed" });
+    }
+  }
+  return changes;
+}
+
+function splitLines(content: string) {
+  if (!content) return [];
+  return content.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+function sectionLabels(lines: string[]) {
+  const labels: Array<string | null> = [];
+  let current: string | null = null;
+  for (const line of lines) {
+    const match = line.match(HEADING_LINE);
+    if (match) {
+      current = match[1].trim();
+    }
+    labels.push(current);
+  }
+  return labels;
+}
+
+type DiffOp = { type: DiffLineType; beforeIndex?: number; afterIndex?: number };
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i += 1) {
+    ops.push({ type: "context", beforeIndex: i, afterIndex: i });
+  }
+
+  const n = before.length - prefix - suffix;
+  const m = after.length - prefix - suffix;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = 0; i < n; i += 1) {
+      ops.push({ type: "removed", beforeIndex: prefix + i });
+    }
+    for (let j = 0; j < m; j += 1) {
+      ops.push({ type: "added", afterIndex: prefix + j });
+    }
+    pushSuffix(ops, before.length, after.length, suffix);
+    return ops;
+  }
+
+  // Longest common subsequence over the differing middle section
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      table[at(i, j)] =
+        before[prefix + i] === after[prefix + j]
+          ? table[at(i + 1, j + 1)] + 1
+          : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[prefix + i] === after[prefix + j]) {
+      ops.push({ type: "context", beforeIndex: prefix + i, afterIndex: prefix + j });
+      i += 1;
+      j += 1;
+    } else if (i < n && (j === m || table[at(i + 1, j)] >= table[at(i, j + 1)])) {
+      ops.push({ type: "removed", beforeIndex: prefix + i });
+      i += 1;
+    } else {
+      ops.push({ type: "added", afterIndex: prefix + j });
+      j += 1;
+    }
+  }
+
+  pushSuffix(ops, before.length, after.length, suffix);
+  return ops;
+}
+
+function pushSuffix(ops: DiffOp[], beforeLength: number, afterLength: number, suffix: number) {
+  for (let k = suffix; k > 0; k -= 1) {
+    ops.push({ type: "context", beforeIndex: beforeLength - k, afterIndex: afterLength - k });
+  }
+}
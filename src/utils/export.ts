@@ -1,18 +1,35 @@
 import { createHash } from "node:crypto";
 import type { Readable } from "node:stream";
 import yazl from "yazl";
+import { stageNames, type StageName, type ValidationLocation, type ValidationSeverity } from "../db/schema";
+import { parsePromptPlan } from "./prompt-plan";
 
 type DocRow = { name: string; content: string };
 type DesignRow = { path: string; size: number; contentType: string; sha256: string; data: Buffer };
+type WarningRow = {
+  stage: StageName;
+  code: string;
+  severity: ValidationSeverity;
+  message: string;
+  location: ValidationLocation | null;
+};
 
 export type ExportManifest = {
   generated_at: string;
   docs: Array<{ name: string; sha256: string }>;
   designs: Array<{ path: string; size: number; content_type: string; sha256: string }>;
   policy: { replace_on_upload: true };
+  /** Non-blocking validation reasons accepted when each stage was approved. */
+  validation_warnings: Array<{
+    stage: StageName;
+    code: string;
+    severity: ValidationSeverity;
+    message: string;
+    location?: ValidationLocation;
+  }>;
 };
 
-export function buildManifest(docs: DocRow[], designs: DesignRow[]): ExportManifest {
+export function buildManifest(docs: DocRow[], designs: DesignRow[], warnings: WarningRow[] = []): ExportManifest {
   const docList = [...docs]
     .sort((a, b) => a.name.localeCompare(b.name))
     .map((doc) => ({ name: doc.name, sha256: sha256String(doc.content ?? "") }));
@@ -25,7 +42,16 @@ export function buildManifest(docs: DocRow[], designs: DesignRow[]): ExportManif
     generated_at: new Date().toISOString(),
     docs: docList,
     designs: designList,
-    policy: { replace_on_upload: true }
+    policy: { replace_on_upload: true },
+    validation_warnings: [...warnings]
+      .sort((a, b) => stageNames.indexOf(a.stage) - stageNames.indexOf(b.stage) || a.code.localeCompare(b.code))
+      .map(({ stage, code, severity, message, location }) => ({
+        stage,
+        code,
+        severity,
+        message,
+        ...(location ? { location } : {})
+      }))
   };
 }
 
@@ -47,6 +73,13 @@ export function createZipStream(params: {
     zip.addBuffer(file.data, `designs/${file.path}`, { mtime: new Date(0) });
   }
 
+  // Machine-readable step graph alongside the plan it was parsed from
+  const planDoc = params.docs.find((doc) => doc.name === "prompt_plan.md");
+  if (planDoc) {
+    const planBuf = Buffer.from(JSON.stringify(parsePromptPlan(planDoc.content ?? ""), null, 2), "utf8");
+    zip.addBuffer(planBuf, "prompt_plan.json", { mtime: new Date(0) });
+  }
+
   // Manifest
   const manifestBuf = Buffer.from(JSON.stringify(params.manifest, null, 2), "utf8");
   zip.addBuffer(manifestBuf, "manifest.json", { mtime: new Date(0) });
@@ -0,0 +1,250 @@
+export type PlanChecklistItem = {
+  text: string;
+  checked: boolean;
+};
+
+export type PlanStep = {
+  id: string;
+  number: number;
+  title: string;
+  prompt: string | null;
+  tests: string[];
+  checklist: PlanChecklistItem[];
+  depends_on: string[];
+  /** True once the step has checklist items and all of them are ticked. */
+  done: boolean;
+};
+
+export type PromptPlan = {
+  steps: PlanStep[];
+};
+
+export type ChecklistEntry = PlanChecklistItem & {
+  /** Position among all checklist items in the doc; the id used to toggle an item. */
+  index: number;
+  /** Title of the nearest heading above the item. */
+  section: string;
+};
+
+export type ChecklistProgress = {
+  total: number;
+  done: number;
+  percent: number;
+};
+
+export type SectionProgress = ChecklistProgress & { section: string };
+
+type StepLabel = "prompt" | "tests" | "checklist" | "depends";
+
+const STEP_HEADING = /^(#{2,6})\s+Step\s+(\d+)\s*[:.)\-–—]?\s*(.*?)\s*$/i;
+const ANY_HEADING = /^(#{1,6})\s+\S/;
+const LABEL_NAMES = "Prompt|Acceptance Tests|Tests|Checklist|Depends on|Dependencies";
+const BOLD_LABEL = new RegExp(`^\\s*(\\*\\*|__)(${LABEL_NAMES})\\s*:?\\s*\\1\\s*:?\\s*(.*)$`, "i");
+const PLAIN_LABEL = new RegExp(`^\\s*(${LABEL_NAMES})\\s*:\\s*(.*)$`, "i");
+const HEADING_LABEL = new RegExp(`^#{3,6}\\s+(${LABEL_NAMES})\\s*:?\\s*$`, "i");
+const CHECKLIST_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s+(.+?)\s*$/;
+const BULLET_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.+?)\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Parses the `### Step N: Title` blocks of prompt_plan.md (the structure the prompt_plan stage
+ * asks the model for) into typed steps. Each step may carry a **Prompt** (fenced or plain),
+ * **Acceptance Tests** bullets, a **Checklist** of `- [ ]` items and a **Depends on** line;
+ * without one, a step depends on the step before it. Plans without step headings yield no steps.
+ */
+export function parsePromptPlan(content: string): PromptPlan {
+  const lines = (content ?? "").split(/\r?\n/);
+  const steps: PlanStep[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const heading = lines[index].match(STEP_HEADING);
+    if (!heading || insideFence(lines, index)) {
+      index += 1;
+      continue;
+    }
+
+    const level = heading[1].length;
+    let end = index + 1;
+    let fenced = false;
+    for (; end < lines.length; end += 1) {
+      if (FENCE.test(lines[end])) fenced = !fenced;
+      if (fenced) continue;
+      const next = lines[end].match(ANY_HEADING);
+      if (next && (next[1].length <= level || STEP_HEADING.test(lines[end]))) break;
+    }
+
+    const number = Number(heading[2]);
+    steps.push(parseStepBody(number, heading[3] || `Step ${number}`, lines.slice(index + 1, end), steps.at(-1)));
+    index = end;
+  }
+
+  return { steps };
+}
+
+function parseStepBody(number: number, title: string, body: string[], previous?: PlanStep): PlanStep {
+  let label: StepLabel | null = null;
+  let dependsText: string | null = null;
+  const promptLines: string[] = [];
+  const tests: string[] = [];
+  const checklist: PlanChecklistItem[] = [];
+  let fence: string | null = null;
+
+  for (const line of body) {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null;
+      } else if (label === "prompt") {
+        promptLines.push(line);
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const labelMatch = matchLabel(line);
+    if (labelMatch) {
+      label = labelMatch.label;
+      if (label === "depends") {
+        dependsText = labelMatch.rest;
+      } else if (label === "prompt" && labelMatch.rest) {
+        promptLines.push(labelMatch.rest);
+      }
+      continue;
+    }
+
+    const checkbox = line.match(CHECKLIST_ITEM);
+    if (checkbox) {
+      checklist.push({ text: checkbox[2], checked: checkbox[1] !== " " });
+      continue;
+    }
+
+    if (label === "prompt") {
+      promptLines.push(line);
+    } else if (label === "tests") {
+      const bullet = line.match(BULLET_ITEM);
+      if (bullet) tests.push(bullet[1]);
+    } else if (label === "depends" && line.trim()) {
+      dependsText = `${dependsText ?? ""} ${line.trim()}`;
+    }
+  }
+
+  const prompt = promptLines.join("\n").trim();
+  return {
+    id: stepId(number),
+    number,
+    title: title.trim(),
+    prompt: prompt || null,
+    tests,
+    checklist,
+    depends_on: parseDependencies(dependsText, number, previous),
+    done: checklist.length > 0 && checklist.every((item) => item.checked)
+  };
+}
+
+function matchLabel(line: string): { label: StepLabel; rest: string } | undefined {
+  const bold = line.match(BOLD_LABEL);
+  if (bold) return { label: toLabel(bold[2]), rest: bold[3].trim() };
+  const plain = line.match(PLAIN_LABEL);
+  if (plain) return { label: toLabel(plain[1]), rest: plain[2].trim() };
+  const heading = line.match(HEADING_LABEL);
+  if (heading) return { label: toLabel(heading[1]), rest: "" };
+  return undefined;
+}
+
+function toLabel(name: string): StepLabel {
+  const normalized = name.toLowerCase();
+  if (normalized === "prompt") return "prompt";
+  if (normalized === "checklist") return "checklist";
+  if (normalized.startsWith("depend")) return "depends";
+  return "tests";
+}
+
+function parseDependencies(text: string | null, number: number, previous?: PlanStep) {
+  if (text === null) {
+    return previous ? [previous.id] : [];
+  }
+  const numbers = (text.match(/\d+/g) ?? []).map(Number).filter((value) => value !== number);
+  return [...new Set(numbers)].map(stepId);
+}
+
+function stepId(number: number) {
+  return `step-${number}`;
+}
+
+function insideFence(lines: string[], index: number) {
+  let open = false;
+  for (let i = 0; i < index; i += 1) {
+    if (FENCE.test(lines[i])) open = !open;
+  }
+  return open;
+}
+
+/** Every `- [ ]` / `- [x]` item in the doc, in order, outside code fences. */
+export function parseChecklist(content: string): ChecklistEntry[] {
+  const entries: ChecklistEntry[] = [];
+  let section = "";
+  let fenced = false;
+
+  for (const line of (content ?? "").split(/\r?\n/)) {
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+      continue;
+    }
+    if (fenced) continue;
+
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      section = heading[1];
+      continue;
+    }
+    const item = line.match(CHECKLIST_ITEM);
+    if (item) {
+      entries.push({ index: entries.length, section, text: item[2], checked: item[1] !== " " });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Rewrites the checkbox of the item at `index` (as numbered by parseChecklist) and leaves every
+ * other byte of the doc untouched. Returns undefined when there is no such item.
+ */
+export function setChecklistItem(content: string, index: number, checked: boolean): string | undefined {
+  const lines = (content ?? "").split(/(?<=\n)/);
+  let seen = 0;
+  let fenced = false;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    if (FENCE.test(lines[i])) {
+      fenced = !fenced;
+      continue;
+    }
+    if (fenced || !CHECKLIST_ITEM.test(lines[i].replace(/\r?\n$/, ""))) continue;
+    if (seen === index) {
+      lines[i] = lines[i].replace(/\[[ xX]\]/, checked ? "[x]" : "[ ]");
+      return lines.join("");
+    }
+    seen += 1;
+  }
+  return undefined;
+}
+
+export function summarizeChecklist(entries: ChecklistEntry[]): ChecklistProgress & { sections: SectionProgress[] } {
+  const bySection = new Map<string, ChecklistEntry[]>();
+  for (const entry of entries) {
+    bySection.set(entry.section, [...(bySection.get(entry.section) ?? []), entry]);
+  }
+  return {
+    ...progressOf(entries),
+    sections: [...bySection].map(([section, items]) => ({ section, ...progressOf(items) }))
+  };
+}
+
+function progressOf(items: PlanChecklistItem[]): ChecklistProgress {
+  const done = items.filter((item) => item.checked).length;
+  return { total: items.length, done, percent: items.length === 0 ? 0 : Math.round((done / items.length) * 100) };
+}
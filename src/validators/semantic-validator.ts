@@ -0,0 +1,120 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { docs, type DocName, type StageName } from "../db/schema";
+import { validateResponse, type LlmInput } from "../libs/llm";
+import { renderPrompt } from "../libs/prompts";
+
+export const semanticChecks = ["section_substantive", "contradiction", "untestable_requirement"] as const;
+export type SemanticCheck = (typeof semanticChecks)[number];
+
+export type SemanticIssue = {
+  check: SemanticCheck;
+  message: string;
+};
+
+type SemanticRubric = {
+  doc: DocName;
+  /** Approved upstream docs the stage doc must stay consistent with. */
+  references: DocName[];
+  criteria: string[];
+};
+
+const rubrics: Partial<Record<StageName, SemanticRubric>> = {
+  intake: {
+    doc: "idea_one_pager.md",
+    references: [],
+    criteria: [
+      "section_substantive: Problem, Audience, Platform, Core Flow, and MVP Features each say something specific to this product, not a placeholder, TBD, or a restated heading."
+    ]
+  },
+  spec: {
+    doc: "spec.md",
+    references: ["idea_one_pager.md"],
+    criteria: [
+      "section_substantive: requirements, architecture, data handling, error handling, testing plan, and Definition of Done are each present and concrete, not a passing mention.",
+      "contradiction: nothing conflicts with the one-pager's problem, audience, platform, core flow, MVP features, or non-goals.",
+      "untestable_requirement: every requirement and Definition of Done item can be verified by a test or a concrete manual check."
+    ]
+  },
+  prompt_plan: {
+    doc: "prompt_plan.md",
+    references: ["spec.md"],
+    criteria: [
+      "section_substantive: each step has a concrete codegen prompt, acceptance tests, and checklist items.",
+      "contradiction: no step builds something the spec rules out or omits a spec requirement the plan claims to cover.",
+      "untestable_requirement: every acceptance test describes an observable, checkable outcome."
+    ]
+  },
+  agents: {
+    doc: "AGENTS.md",
+    references: ["spec.md", "prompt_plan.md"],
+    criteria: [
+      "section_substantive: tech stack, build/test commands, directory conventions, coding standards, and forbidden actions are specific to this project.",
+      "contradiction: the stack and commands match what the spec and prompt plan describe."
+    ]
+  }
+};
+
+/**
+ * Asks the model (at validation temperature) for a rubric verdict on the stage's doc. Returns
+ * no issues for stages without a doc, and when the model is unavailable or its verdict cannot be
+ * parsed: the semantic pass can only add reasons, never make approval depend on the model being up.
+ */
+export async function findSemanticIssues(sessionId: string, stage: StageName): Promise<SemanticIssue[]> {
+  const rubric = rubrics[stage];
+  if (!rubric) return [];
+
+  const rows = await db.query.docs.findMany({
+    where: eq(docs.sessionId, sessionId),
+    columns: { name: true, content: true }
+  });
+  const contentOf = (name: DocName) => rows.find((row) => row.name === name)?.content?.trim() ?? "";
+  const doc = contentOf(rubric.doc);
+  if (!doc) return [];
+
+  const input: LlmInput = [
+    {
+      role: "system",
+      type: "message",
+      content: renderPrompt("validator.semantic", {
+        doc_name: rubric.doc,
+        criteria: rubric.criteria.map((criterion) => `- ${criterion}`).join("\n")
+      }).text
+    },
+    {
+      role: "user",
+      type: "message",
+      content: [
+        ...rubric.references.flatMap((name) => [`REFERENCE ${name}:`, contentOf(name) || `${name} is empty.`, ""]),
+        `DOCUMENT UNDER REVIEW ${rubric.doc}:`,
+        doc
+      ].join("\n")
+    }
+  ];
+
+  try {
+    const response = await validateResponse({ input, context: { sessionId, stage } });
+    return parseSemanticVerdict(response.text);
+  } catch {
+    return [];
+  }
+}
+
+export function parseSemanticVerdict(text: string): SemanticIssue[] {
+  const json = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  const issues = (parsed as { issues?: unknown })?.issues;
+  if (!Array.isArray(issues)) return [];
+  return issues
+    .filter(
+      (issue): issue is SemanticIssue =>
+        semanticChecks.includes(issue?.check) && typeof issue?.message === "string" && issue.message.trim().length > 0
+    )
+    .map((issue) => ({ check: issue.check, message: issue.message.trim() }));
+}
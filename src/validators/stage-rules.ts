@@ -0,0 +1,195 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { validationSeverities, type DocName, type StageName, type ValidationSeverity } from "../db/schema";
+import { env } from "../env";
+import defaultRulesFile from "./stage-rules.json";
+
+export const ruleStageDocs = {
+  intake: "idea_one_pager.md",
+  spec: "spec.md",
+  prompt_plan: "prompt_plan.md",
+  agents: "AGENTS.md"
+} as const satisfies Partial<Record<StageName, DocName>>;
+
+export type RuleStage = keyof typeof ruleStageDocs;
+
+const ruleBase = {
+  id: z.string().min(1),
+  /** Reason reported when the rule fails; each rule type has a default. */
+  message: z.string().min(1).optional(),
+  /** Short name shown in the readiness checklist; each rule type has a default. */
+  label: z.string().min(1).optional(),
+  /** Only `error` rules block approval; defaults to `error`. */
+  severity: z.enum(validationSeverities).optional()
+};
+
+const stageRuleSchema = z.discriminatedUnion("type", [
+  z.object({ ...ruleBase, type: z.literal("required_section"), section: z.string().min(1) }),
+  z.object({ ...ruleBase, type: z.literal("min_words"), min: z.number().int().positive() }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("required_pattern"),
+    pattern: z.string().min(1),
+    flags: z.string().optional()
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("forbidden_phrase"),
+    phrase: z.string().min(1),
+    case_sensitive: z.boolean().optional()
+  }),
+  z.object({ ...ruleBase, type: z.literal("max_length"), max: z.number().int().positive() })
+]);
+
+const rulesFileSchema = z.object({
+  version: z.literal(1),
+  stages: z.object(
+    Object.fromEntries(
+      Object.keys(ruleStageDocs).map((stage) => [stage, z.array(stageRuleSchema).optional()])
+    ) as Record<RuleStage, z.ZodOptional<z.ZodArray<typeof stageRuleSchema>>>
+  )
+});
+
+export type StageRule = z.infer<typeof stageRuleSchema>;
+export type StageRulesFile = z.infer<typeof rulesFileSchema>;
+export type StageRules = Record<RuleStage, StageRule[]>;
+
+export type RuleFailure = {
+  rule: string;
+  reason: string;
+};
+
+export type RuleStatus = {
+  rule: string;
+  label: string;
+  severity: ValidationSeverity;
+  /** Heading the rule concerns, for rules tied to one section. */
+  section?: string;
+  /** Set when the rule failed. */
+  reason?: string;
+};
+
+let cachedRules: StageRules | undefined;
+
+/**
+ * Rules for every doc stage: the bundled stage-rules.json, with each stage listed in the file at
+ * VALIDATION_RULES_PATH replacing the bundled rules for that stage. Loaded once per process, at
+ * server start (see buildServer); an invalid rules file throws so a typo never silently disables validation.
+ */
+export function getStageRules(): StageRules {
+  if (!cachedRules) {
+    cachedRules = loadStageRules(env.VALIDATION_RULES_PATH);
+  }
+  return cachedRules;
+}
+
+export function loadStageRules(rulesPath?: string): StageRules {
+  const defaults = parseRulesFile(defaultRulesFile, "stage-rules.json");
+  if (!rulesPath) return resolveStages(defaults);
+
+  const resolved = path.resolve(process.cwd(), rulesPath);
+  const overrides = parseRulesFile(JSON.parse(readFileSync(resolved, "utf8")), resolved);
+  return resolveStages({ ...defaults, stages: { ...defaults.stages, ...overrides.stages } });
+}
+
+export function parseRulesFile(value: unknown, source: string): StageRulesFile {
+  const parsed = rulesFileSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid validation rules in ${source}: ${parsed.error.message}`);
+  }
+
+  for (const rules of Object.values(parsed.data.stages)) {
+    for (const rule of rules ?? []) {
+      if (rule.type !== "required_pattern") continue;
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch (error) {
+        throw new Error(
+          `Invalid validation rules in ${source}: rule ${rule.id} has a bad pattern (${(error as Error).message})`
+        );
+      }
+    }
+  }
+  return parsed.data;
+}
+
+/** Evaluates rules against a stage doc and returns one failure per broken rule, in file order. */
+export function evaluateStageRules(rules: StageRule[], docName: DocName, content: string): RuleFailure[] {
+  return checkStageRules(rules, docName, content).flatMap(({ rule, reason }) => (reason ? [{ rule, reason }] : []));
+}
+
+/** Evaluates rules against a stage doc and returns the status of every rule, in file order. */
+export function checkStageRules(rules: StageRule[], docName: DocName, content: string): RuleStatus[] {
+  return rules.map((rule) => {
+    const reason = checkRule(rule, docName, content);
+    return {
+      rule: rule.id,
+      label: ruleLabel(rule),
+      severity: rule.severity ?? "error",
+      ...(rule.type === "required_section" ? { section: rule.section } : {}),
+      ...(reason ? { reason: rule.message ?? reason } : {})
+    };
+  });
+}
+
+export function ruleLabel(rule: StageRule): string {
+  if (rule.label) return rule.label;
+  switch (rule.type) {
+    case "required_section":
+      return `${rule.section} section`;
+    case "min_words":
+      return `At least ${rule.min} words`;
+    case "required_pattern":
+      return `Matches /${rule.pattern}/${rule.flags ?? ""}`;
+    case "forbidden_phrase":
+      return `No "${rule.phrase}"`;
+    case "max_length":
+      return `At most ${rule.max} characters`;
+  }
+}
+
+function checkRule(rule: StageRule, docName: DocName, content: string): string | undefined {
+  switch (rule.type) {
+    case "required_section":
+      return hasSection(content, rule.section) ? undefined : `${docName} is missing the "${rule.section}" section.`;
+    case "min_words": {
+      const words = content.split(/\s+/).filter(Boolean).length;
+      return words >= rule.min ? undefined : `${docName} must have at least ${rule.min} words (has ${words}).`;
+    }
+    case "required_pattern":
+      return new RegExp(rule.pattern, rule.flags).test(content)
+        ? undefined
+        : `${docName} must match /${rule.pattern}/${rule.flags ?? ""}.`;
+    case "forbidden_phrase": {
+      const found = rule.case_sensitive
+        ? content.includes(rule.phrase)
+        : content.toLowerCase().includes(rule.phrase.toLowerCase());
+      return found ? `${docName} must not contain "${rule.phrase}".` : undefined;
+    }
+    case "max_length":
+      return content.length <= rule.max
+        ? undefined
+        : `${docName} must be at most ${rule.max} characters (has ${content.length}).`;
+  }
+}
+
+function resolveStages(file: StageRulesFile): StageRules {
+  return Object.fromEntries(
+    (Object.keys(ruleStageDocs) as RuleStage[]).map((stage) => [stage, file.stages[stage] ?? []])
+  ) as StageRules;
+}
+
+function hasSection(content: string, section: string) {
+  const escaped = escapeRegExp(section);
+  const patterns = [
+    new RegExp(`^#{1,6}\\s*${escaped}\\b`, "mi"),
+    new RegExp(`^\\s*[-*]\\s*(?:\\*\\*${escaped}\\*\\*|${escaped})\\s*:`, "mi"),
+    new RegExp(`\\b${escaped}\\b`, "mi")
+  ];
+  return patterns.some((pattern) => pattern.test(content));
+}
+
+function escapeRegExp(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,16 +1,59 @@
 import { createHash } from "node:crypto";
 import { and, eq } from "drizzle-orm";
 import { db } from "../db/client";
-import { docs, designs, docNames, type DocName, type StageName } from "../db/schema";
+import {
+  docs,
+  designs,
+  docNames,
+  type DocName,
+  type StageName,
+  type ValidationLocation,
+  type ValidationSeverity
+} from "../db/schema";
+import { env } from "../env";
+import { findSemanticIssues } from "./semantic-validator";
+import { checkStageRules, getStageRules, ruleLabel, ruleStageDocs, type RuleStage } from "./stage-rules";
+
+export type StageReason = {
+  /** Id of the failed check; rules-file checks use the rule id. */
+  code: string;
+  severity: ValidationSeverity;
+  message: string;
+  location?: ValidationLocation;
+};
 
 export type StageValidationResult = {
+  /** False only when an `error` reason is present; warnings and infos never block approval. */
   ok: boolean;
-  reasons: string[];
+  reasons: StageReason[];
 };
 
-type StageValidator = (sessionId: string) => Promise<StageValidationResult>;
+export type StageCheckStatus = "pass" | "fail" | "skip";
+
+export type StageCheck = {
+  id: string;
+  label: string;
+  status: StageCheckStatus;
+  /** How much a failure of this check matters; only `error` failures block approval. */
+  severity: ValidationSeverity;
+  /** Why the check failed; only set on failures. */
+  reason?: string;
+  location?: ValidationLocation;
+  /** True for checks defined in the stage rules file. */
+  rule?: boolean;
+};
 
-const onePagerSections = ["Problem", "Audience", "Platform", "Core Flow", "MVP Features"];
+export type StageCheckResult = {
+  ok: boolean;
+  checks: StageCheck[];
+};
+
+export type StageValidationOptions = {
+  /** Run the model-backed rubric pass after the structural checks; defaults to SEMANTIC_VALIDATION. */
+  semantic?: boolean;
+};
+
+type StageValidator = (sessionId: string) => Promise<StageCheck[]>;
 
 const stageValidators: Record<StageName, StageValidator> = {
   intake: validateIntake,
@@ -23,78 +66,88 @@ const stageValidators: Record<StageName, StageValidator> = {
 
 export async function validateStage(
   sessionId: string,
-  stage: StageName
+  stage: StageName,
+  options: StageValidationOptions = {}
 ): Promise<StageValidationResult> {
-  const validator = stageValidators[stage];
-  if (!validator) {
-    return fail(`Stage validator missing for ${stage}`);
-  }
-  return validator(sessionId);
+  const { ok, checks } = await checkStage(sessionId, stage, options);
+  const reasons = checks
+    .filter((check) => check.status === "fail")
+    .map(
+      (check): StageReason => ({
+        code: check.id,
+        severity: check.severity,
+        message: check.reason ?? check.label,
+        ...(check.location ? { location: check.location } : {})
+      })
+    );
+  return { ok, reasons };
 }
 
-async function validateIntake(sessionId: string): Promise<StageValidationResult> {
-  const doc = await getDoc(sessionId, "idea_one_pager.md");
-  if (!doc || !hasContent(doc.content)) {
-    return fail("idea_one_pager.md is empty.");
+/** Every check behind a stage's approval with its status; reads only, so it is safe to call as a dry run. */
+export async function checkStage(
+  sessionId: string,
+  stage: StageName,
+  options: StageValidationOptions = {}
+): Promise<StageCheckResult> {
+  const validator = stageValidators[stage];
+  if (!validator) {
+    return result([failCheck(`${stage}.validator`, "Stage validator", `Stage validator missing for ${stage}`)]);
   }
 
-  const missing = onePagerSections.filter((section) => !hasSection(doc.content, section));
-  if (missing.length > 0) {
-    return fail(`Missing sections: ${missing.join(", ")}`);
+  const checks = await validator(sessionId);
+  // Structural failures are cheaper to fix first; the semantic pass only reviews a well-formed doc
+  if (!result(checks).ok || !(options.semantic ?? env.SEMANTIC_VALIDATION ?? false)) {
+    return result(checks);
   }
 
-  return ok();
+  const issues = await findSemanticIssues(sessionId, stage);
+  const doc = ruleStageDocs[stage as RuleStage];
+  const location = doc ? { location: { doc } } : {};
+  const semanticChecks =
+    issues.length > 0
+      ? issues.map((issue) => ({
+          ...failCheck(`semantic.${issue.check}`, "Semantic review", issue.message),
+          ...location
+        }))
+      : [passCheck("semantic.review", "Semantic review")];
+  return result([...checks, ...semanticChecks]);
 }
 
-async function validateSpec(sessionId: string): Promise<StageValidationResult> {
-  const doc = await getDoc(sessionId, "spec.md");
-  if (!doc || !hasContent(doc.content)) {
-    return fail("spec.md is empty.");
-  }
-
-  const reasons: string[] = [];
-  if (!/definition\s+of\s+done/i.test(doc.content)) {
-    reasons.push('spec.md must include a "Definition of Done" section.');
-  }
-
-  if (!onePagerSections.some((section) => new RegExp(section, "i").test(doc.content))) {
-    reasons.push("spec.md must reference prior docs (Problem, Audience, Platform, Core Flow, MVP Features).");
-  }
+async function validateIntake(sessionId: string): Promise<StageCheck[]> {
+  return validateDocRules(sessionId, "intake");
+}
 
-  return reasons.length > 0 ? { ok: false, reasons } : ok();
+async function validateSpec(sessionId: string): Promise<StageCheck[]> {
+  return validateDocRules(sessionId, "spec");
 }
 
-async function validateDesign(sessionId: string): Promise<StageValidationResult> {
+async function validateDesign(sessionId: string): Promise<StageCheck[]> {
   const design = await db.query.designs.findFirst({
     where: eq(designs.sessionId, sessionId),
     columns: { path: true }
   });
 
-  if (!design) {
-    return fail("Upload at least one design before approving the design stage (/designs/ index is empty).");
-  }
-
-  return ok();
+  const label = "At least one design uploaded";
+  return [
+    design
+      ? passCheck("design.uploads", label)
+      : failCheck(
+          "design.uploads",
+          label,
+          "Upload at least one design before approving the design stage (/designs/ index is empty)."
+        )
+  ];
 }
 
-async function validatePromptPlan(sessionId: string): Promise<StageValidationResult> {
-  return requireDocContent(sessionId, "prompt_plan.md", "prompt_plan.md is empty.");
+async function validatePromptPlan(sessionId: string): Promise<StageCheck[]> {
+  return validateDocRules(sessionId, "prompt_plan");
 }
 
-async function validateAgents(sessionId: string): Promise<StageValidationResult> {
-  const doc = await getDoc(sessionId, "AGENTS.md");
-  if (!doc || !hasContent(doc.content)) {
-    return fail("AGENTS.md is empty.");
-  }
-
-  if (!/agent responsibility/i.test(doc.content)) {
-    return fail('AGENTS.md must include the "Agent responsibility" section.');
-  }
-
-  return ok();
+async function validateAgents(sessionId: string): Promise<StageCheck[]> {
+  return validateDocRules(sessionId, "agents");
 }
 
-async function validateExport(sessionId: string): Promise<StageValidationResult> {
+async function validateExport(sessionId: string): Promise<StageCheck[]> {
   const docRows = await db.query.docs.findMany({
     where: eq(docs.sessionId, sessionId)
   });
@@ -108,17 +161,26 @@ async function validateExport(sessionId: string): Promise<StageValidationResult>
     return !row || !hasContent(row.content);
   });
 
+  const contentLabel = "Every doc has content";
+  const manifestLabel = "Manifest can be generated";
   if (emptyDocs.length > 0) {
-    return fail(`Docs missing content: ${emptyDocs.join(", ")}`);
+    return [
+      failCheck("export.docs-content", contentLabel, `Docs missing content: ${emptyDocs.join(", ")}`),
+      skipCheck("export.manifest", manifestLabel)
+    ];
   }
 
   try {
     generateManifestStub(docRows, designRows);
   } catch (error) {
-    return fail("Failed to generate manifest.", error instanceof Error ? error.message : String(error));
+    const message = error instanceof Error ? error.message : String(error);
+    return [
+      passCheck("export.docs-content", contentLabel),
+      failCheck("export.manifest", manifestLabel, `Failed to generate manifest. ${message}`)
+    ];
   }
 
-  return ok();
+  return [passCheck("export.docs-content", contentLabel), passCheck("export.manifest", manifestLabel)];
 }
 
 function generateManifestStub(
@@ -141,16 +203,36 @@ function generateManifestStub(
   };
 }
 
-async function requireDocContent(
-  sessionId: string,
-  docName: DocName,
-  message: string
-): Promise<StageValidationResult> {
+async function validateDocRules(sessionId: string, stage: RuleStage): Promise<StageCheck[]> {
+  const docName = ruleStageDocs[stage];
   const doc = await getDoc(sessionId, docName);
+  const rules = getStageRules()[stage];
+  const contentLabel = `${docName} has content`;
+  const location = { doc: docName };
+
   if (!doc || !hasContent(doc.content)) {
-    return fail(message);
+    // Rules are listed but not evaluated, so an empty doc reports one reason instead of one per rule
+    return [
+      { ...failCheck(`${stage}.content`, contentLabel, `${docName} is empty.`), location },
+      ...rules.map((rule) => ({ ...skipCheck(rule.id, ruleLabel(rule)), severity: rule.severity ?? "error", rule: true }))
+    ];
   }
-  return ok();
+
+  return [
+    passCheck(`${stage}.content`, contentLabel),
+    ...checkStageRules(rules, docName, doc.content).map(
+      (status): StageCheck => ({
+        id: status.rule,
+        label: status.label,
+        status: status.reason ? "fail" : "pass",
+        severity: status.severity,
+        ...(status.reason
+          ? { reason: status.reason, location: status.section ? { ...location, section: status.section } : location }
+          : {}),
+        rule: true
+      })
+    )
+  ];
 }
 
 async function getDoc(sessionId: string, docName: DocName) {
@@ -163,24 +245,18 @@ function hasContent(content: string | null | undefined) {
   return typeof content === "string" && content.trim().length > 0;
 }
 
-function hasSection(content: string, section: string) {
-  const escaped = escapeRegExp(section);
-  const patterns = [
-    new RegExp(`^#{1,6}\\s*${escaped}\\b`, "mi"),
-    new RegExp(`^\\s*[-*]\\s*(?:\\*\\*${escaped}\\*\\*|${escaped})\\s*:`, "mi"),
-    new RegExp(`\\b${escaped}\\b`, "mi")
-  ];
-  return patterns.some((pattern) => pattern.test(content));
+function result(checks: StageCheck[]): StageCheckResult {
+  return { ok: checks.every((check) => check.status !== "fail" || check.severity !== "error"), checks };
 }
 
-function escapeRegExp(input: string) {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+function passCheck(id: string, label: string): StageCheck {
+  return { id, label, status: "pass", severity: "error" };
 }
 
-function ok(): StageValidationResult {
-  return { ok: true, reasons: [] };
+function failCheck(id: string, label: string, reason: string): StageCheck {
+  return { id, label, status: "fail", severity: "error", reason };
 }
 
-function fail(...reasons: string[]): StageValidationResult {
-  return { ok: false, reasons };
+function skipCheck(id: string, label: string): StageCheck {
+  return { id, label, status: "skip", severity: "error" };
 }
@@ -0,0 +1,114 @@
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { db } from "../../src/db/client";
+import { chatMessages, chatSummaries, sessions } from "../../src/db/schema";
+import { loadChatBranch } from "../../src/services/chat-branches";
+import { buildChatContext } from "../../src/services/chat-context";
+
+const { generateResponseMock } = vi.hoisted(() => ({ generateResponseMock: vi.fn() }));
+
+vi.mock("../../src/libs/llm", () => ({ generateResponse: generateResponseMock }));
+
+// Each turn is ~100 tokens, so a 350-token budget keeps the last two verbatim
+const TURN = "x".repeat(400);
+
+describe("buildChatContext", () => {
+  let sessionId: string;
+
+  beforeEach(async () => {
+    generateResponseMock.mockReset();
+    sessionId = randomUUID();
+    await db.insert(sessions).values({ sessionId, currentStage: "intake" });
+  });
+
+  it("keeps a short conversation verbatim without calling the model", async () => {
+    await insertTurns(sessionId, ["Hi", "Hello"]);
+    const branch = await loadChatBranch(sessionId, "intake");
+
+    const result = await buildChatContext(sessionId, "intake", branch, { budget: 350 });
+
+    expect(result).toEqual({ recent: branch });
+    expect(generateResponseMock).not.toHaveBeenCalled();
+  });
+
+  it("summarizes older turns and persists the summary for the stage", async () => {
+    await insertTurns(sessionId, ["one", "two", "three", "four", "five"].map((word) => `${word} ${TURN}`));
+    const branch = await loadChatBranch(sessionId, "intake");
+    generateResponseMock.mockResolvedValue({ text: "- Early decisions" });
+
+    const result = await buildChatContext(sessionId, "intake", branch, { budget: 350 });
+
+    expect(result.summary).toBe("- Early decisions");
+    expect(result.recent.map((row) => row.content.split(" ")[0])).toEqual(["four", "five"]);
+    const [{ input }] = generateResponseMock.mock.calls[0];
+    expect(JSON.stringify(input)).toContain("USER: one");
+    expect(JSON.stringify(input)).not.toContain("four");
+    expect(await storedSummary(sessionId)).toMatchObject({ content: "- Early decisions", throughMessageId: branch[2].id });
+  });
+
+  it("reuses the stored summary and only folds in turns that left the window", async () => {
+    await insertTurns(sessionId, ["one", "two", "three", "four", "five"].map((word) => `${word} ${TURN}`));
+    generateResponseMock.mockResolvedValueOnce({ text: "- Early decisions" });
+    await buildChatContext(sessionId, "intake", await loadChatBranch(sessionId, "intake"), { budget: 350 });
+
+    const cached = await buildChatContext(sessionId, "intake", await loadChatBranch(sessionId, "intake"), { budget: 350 });
+    expect(cached.summary).toBe("- Early decisions");
+    expect(generateResponseMock).toHaveBeenCalledTimes(1);
+
+    await insertTurns(sessionId, [`six ${TURN}`]);
+    generateResponseMock.mockResolvedValueOnce({ text: "- Early decisions\n- Fourth turn" });
+    const rolled = await buildChatContext(sessionId, "intake", await loadChatBranch(sessionId, "intake"), { budget: 350 });
+
+    expect(rolled.summary).toBe("- Early decisions\n- Fourth turn");
+    const input = JSON.stringify(generateResponseMock.mock.calls[1][0].input);
+    expect(input).toContain("- Early decisions");
+    expect(input).toContain("ASSISTANT: four");
+    expect(input).not.toContain("USER: one");
+  });
+
+  it("rebuilds the summary when the covered turns are no longer on the branch", async () => {
+    await insertTurns(sessionId, ["one", "two", "three", "four", "five"].map((word) => `${word} ${TURN}`));
+    const branch = await loadChatBranch(sessionId, "intake");
+    generateResponseMock.mockResolvedValueOnce({ text: "- Original" });
+    await buildChatContext(sessionId, "intake", branch, { budget: 350 });
+
+    // Fork after the first turn, as an edit of the second message would
+    const forked = [branch[0], ...branch.slice(1).map((row, index) => ({ ...row, id: branch[4].id + 100 + index }))];
+    generateResponseMock.mockResolvedValueOnce({ text: "- Forked" });
+    const result = await buildChatContext(sessionId, "intake", forked, { budget: 350 });
+
+    expect(result.summary).toBe("- Forked");
+    expect(JSON.stringify(generateResponseMock.mock.calls[1][0].input)).toContain("(none yet)");
+  });
+
+  it("drops older turns when the model is unavailable", async () => {
+    await insertTurns(sessionId, ["one", "two", "three", "four", "five"].map((word) => `${word} ${TURN}`));
+    generateResponseMock.mockRejectedValue(new Error("OPENAI_API_KEY is required to call OpenAI APIs."));
+
+    const result = await buildChatContext(sessionId, "intake", await loadChatBranch(sessionId, "intake"), { budget: 350 });
+
+    expect(result.summary).toBeUndefined();
+    expect(result.recent).toHaveLength(2);
+    expect(await storedSummary(sessionId)).toBeUndefined();
+  });
+});
+
+async function insertTurns(sessionId: string, contents: string[]) {
+  const latest = await loadChatBranch(sessionId, "intake");
+  let parentId = latest.at(-1)?.id ?? null;
+  for (const [index, content] of contents.entries()) {
+    const role = (latest.length + index) % 2 === 0 ? "user" : "assistant";
+    const [inserted] = await db
+      .insert(chatMessages)
+      .values({ sessionId, stage: "intake", role, content, parentId })
+      .returning({ id: chatMessages.id });
+    parentId = inserted.id;
+  }
+}
+
+function storedSummary(sessionId: string) {
+  return db.query.chatSummaries.findFirst({
+    where: and(eq(chatSummaries.sessionId, sessionId), eq(chatSummaries.stage, "intake"))
+  });
+}
@@ -2,18 +2,20 @@ import { afterAll, beforeAll, describe, expect, it, vi, type Mock } from "vitest
 import type { FastifyInstance } from "fastify";
 import { and, desc, eq } from "drizzle-orm";
 import { createApp, type NextRequestHandler } from "../../src/server";
-import { CHAT_KEEPALIVE_MS } from "../../src/routes/api/chat";
+import { CHAT_KEEPALIVE_MS, shouldTriggerStageRun } from "../../src/routes/api/chat";
+import { CHAT_REPLAY_BUFFER_SIZE } from "../../src/plugins/chat-replay";
 import { db } from "../../src/db/client";
 import { chatMessages, docs, sessions } from "../../src/db/schema";
 import type { DocName, StageName } from "../../src/db/schema";
+import type { ChatMessageRow } from "../../src/services/chat-branches";
 
-vi.mock("../../src/libs/openai", () => {
+vi.mock("../../src/libs/llm", () => {
   const generateResponse = vi.fn();
-  const createAbortController = () => new AbortController();
-  return { generateResponse, createAbortController };
+  const streamResponse = vi.fn();
+  return { generateResponse, streamResponse };
 });
 
-const { generateResponse } = await import("../../src/libs/openai");
+const { streamResponse } = await import("../../src/libs/llm");
 
 const noopNextHandler: NextRequestHandler = async (_req, res) => {
   res.statusCode = 404;
@@ -31,8 +33,8 @@ afterAll(async () => {
 });
 
 describe("/api/chat SSE", () => {
-  it("streams assistant delta events (legacy shape)", async () => {
-    mockOpenAIResponseLegacy("Hello agent");
+  it("streams assistant delta events", async () => {
+    mockStreamedResponse("Hello agent");
     const cookie = await createSession();
 
     const response = await app.inject({
@@ -48,8 +50,8 @@ describe("/api/chat SSE", () => {
     expect(response.body).toContain("Hello agent");
   });
 
-  it("streams assistant delta events (Responses API shape)", async () => {
-    mockOpenAIResponseNewShape("Hello agent 2");
+  it("forwards each streamed chunk as its own assistant.delta frame", async () => {
+    mockStreamedResponse("Hello", " agent", " 2");
     const cookie = await createSession();
 
     const response = await app.inject({
@@ -59,14 +61,57 @@ describe("/api/chat SSE", () => {
       payload: { message: "Hi", stage: "intake" }
     });
 
-    expect(response.statusCode).toBe(200);
-    expect(response.headers["content-type"]).toContain("text/event-stream");
-    expect(response.body).toContain("event: assistant.delta");
-    expect(response.body).toContain("Hello agent 2");
+    const frames = response.body.match(/event: assistant\.delta/g) ?? [];
+    expect(frames).toHaveLength(3);
+    expect(response.body).toContain("data: Hello\n");
+    expect(response.body).toContain("data:  agent\n");
+  });
+
+  it("strips ready flags split across chunks but persists them in the transcript", async () => {
+    mockStreamedResponse("Want me to draft it?\nREA", "DY_TO_", "DRAFT");
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie as string);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "That is everything.", stage: "intake" }
+    });
+
+    expect(response.body).toContain("Want me to draft it?");
+    expect(response.body).not.toContain("REA");
+    expect(response.body).not.toContain("DRAFT\n");
+
+    const assistantRows = await db.query.chatMessages.findMany({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.role, "assistant"), eq(table.stage, "intake"))
+    });
+    expect(assistantRows).toHaveLength(1);
+    expect(assistantRows[0]?.content).toBe("Want me to draft it?\nREADY_TO_DRAFT");
+  });
+
+  it("persists a partially streamed reply once when the stream fails", async () => {
+    (streamResponse as Mock).mockImplementationOnce(() => failingStream(["Partial answer"], { status: 408 }));
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie as string);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "Hi", stage: "intake" }
+    });
+
+    expect(response.body).toContain("Partial answer");
+    expect(response.body).toContain("TIMEOUT");
+    const assistantRows = await db.query.chatMessages.findMany({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.role, "assistant"), eq(table.stage, "intake"))
+    });
+    expect(assistantRows.map((row) => row.content)).toEqual(["Partial answer"]);
   });
 
   it("emits stage.needs_more on OpenAI timeout", async () => {
-    (generateResponse as Mock).mockRejectedValueOnce({ status: 408 });
+    (streamResponse as Mock).mockImplementationOnce(() => failingStream([], { status: 408 }));
     const cookie = await createSession();
 
     const response = await app.inject({
@@ -82,12 +127,9 @@ describe("/api/chat SSE", () => {
 
   it("sends keepalive pings while waiting", async () => {
     vi.useFakeTimers();
-    (generateResponse as Mock).mockImplementationOnce(
-      () =>
-        new Promise((resolve) => {
-          setTimeout(() => resolve({ output: [] }), CHAT_KEEPALIVE_MS * 2);
-        })
-    );
+    (streamResponse as Mock).mockImplementationOnce(async function* () {
+      await new Promise((resolve) => setTimeout(resolve, CHAT_KEEPALIVE_MS * 2));
+    });
 
     const cookie = await createSession();
     const pending = app.inject({
@@ -104,34 +146,56 @@ describe("/api/chat SSE", () => {
     vi.useRealTimers();
   });
 
-  it("silently handles APIUserAbortError by name", async () => {
-    (generateResponse as Mock).mockRejectedValueOnce({ name: "APIUserAbortError" });
+  it("cancels the running turn on DELETE and frees the lock for the next one", async () => {
+    let started: () => void = () => undefined;
+    const streaming = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+    (streamResponse as Mock).mockImplementationOnce(async function* ({ abortSignal }: { abortSignal: AbortSignal }) {
+      yield "Partial answer";
+      started();
+      await new Promise((resolve) => abortSignal.addEventListener("abort", resolve));
+      throw Object.assign(new Error("Request was aborted."), { name: "APIUserAbortError" });
+    });
     const cookie = await createSession();
+    const sessionId = extractSessionId(cookie as string);
 
-    const response = await app.inject({
+    const pending = app.inject({
       method: "POST",
       url: "/api/chat",
       headers: { cookie },
       payload: { message: "cancel", stage: "design" }
     });
+    await streaming;
 
-    expect(response.statusCode).toBe(200);
-    expect(response.body).toBe(":keepalive\n\n");
-  });
+    const cancelled = await app.inject({ method: "DELETE", url: "/api/chat", headers: { cookie } });
+    expect(cancelled.statusCode).toBe(204);
 
-  it("silently handles APIUserAbortError by type", async () => {
-    (generateResponse as Mock).mockRejectedValueOnce({ type: "APIUserAbortError" });
-    const cookie = await createSession();
+    const response = await pending;
+    expect(response.body).toContain("Partial answer");
+    expect(response.body).not.toContain("stage.needs_more");
+    const assistantRows = await db.query.chatMessages.findMany({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.role, "assistant"), eq(table.stage, "design"))
+    });
+    expect(assistantRows.map((row) => row.content)).toEqual(["Partial answer"]);
 
-    const response = await app.inject({
+    mockStreamedResponse("Next answer");
+    const next = await app.inject({
       method: "POST",
       url: "/api/chat",
       headers: { cookie },
-      payload: { message: "cancel", stage: "design" }
+      payload: { message: "again", stage: "design" }
     });
+    expect(next.statusCode).toBe(200);
+    expect(next.body).toContain("Next answer");
+  });
 
-    expect(response.statusCode).toBe(200);
-    expect(response.body).toBe(":keepalive\n\n");
+  it("answers DELETE with 204 when no turn is running", async () => {
+    const cookie = await createSession();
+
+    const response = await app.inject({ method: "DELETE", url: "/api/chat", headers: { cookie } });
+
+    expect(response.statusCode).toBe(204);
   });
 
   it("limits one concurrent chat stream per sid", async () => {
@@ -154,7 +218,7 @@ describe("/api/chat SSE", () => {
   });
 
   it("persists intake user messages before streaming", async () => {
-    mockOpenAIResponseLegacy("Tell me more about the audience.");
+    mockStreamedResponse("Tell me more about the audience.");
     const cookie = await createSession();
     const sessionId = extractSessionId(cookie as string);
 
@@ -174,23 +238,8 @@ describe("/api/chat SSE", () => {
     expect(latestMessage?.stage).toBe("intake");
   });
 
-  it("falls back to output_text when the Responses payload omits message content", async () => {
-    mockOpenAIResponseOutputText("What problem does it solve?");
-    const cookie = await createSession();
-
-    const response = await app.inject({
-      method: "POST",
-      url: "/api/chat",
-      headers: { cookie },
-      payload: { message: "New habit tracker", stage: "intake" }
-    });
-
-    expect(response.body).toContain("event: assistant.delta");
-    expect(response.body).toContain("What problem does it solve?");
-  });
-
   it("prefixes SSE data lines for multi-line assistant text", async () => {
-    mockOpenAIResponseLegacy("For the MVP, we can consider features like:\n- Warm intros\n- Founder scorecards");
+    mockStreamedResponse("For the MVP, we can consider features like:\n- Warm intros\n- Founder scorecards");
     const cookie = await createSession();
 
     const response = await app.inject({
@@ -209,7 +258,7 @@ describe("/api/chat SSE", () => {
     const cookie = await createSession();
 
     for (let i = 0; i < 30; i += 1) {
-      mockOpenAIResponseLegacy(`Reply ${i}`);
+      mockStreamedResponse(`Reply ${i}`);
       const ok = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -230,6 +279,330 @@ describe("/api/chat SSE", () => {
   });
 });
 
+describe("chat history", () => {
+  it("pages a stage transcript backwards with a cursor", async () => {
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie);
+    const first = await insertChatMessage({ sessionId, stage: "intake", role: "user", content: "First" });
+    const second = await insertChatMessage({ sessionId, stage: "intake", role: "assistant", content: "Second", parentId: first });
+    await insertChatMessage({ sessionId, stage: "spec", role: "user", content: "Other stage" });
+    await insertChatMessage({ sessionId, stage: "intake", role: "user", content: "Third", parentId: second });
+
+    const latest = await app.inject({
+      method: "GET",
+      url: "/api/chat/history?stage=intake&limit=2",
+      headers: { cookie }
+    });
+
+    expect(latest.statusCode).toBe(200);
+    const page = latest.json();
+    expect(page.stage).toBe("intake");
+    expect(page.messages.map((message: { content: string }) => message.content)).toEqual(["Second", "Third"]);
+    expect(page.messages[0]).toMatchObject({
+      role: "assistant",
+      id: second,
+      parent_id: first,
+      created_at: expect.any(Number)
+    });
+    expect(page.next_cursor).toBe(String(page.messages[0].id));
+
+    const older = await app.inject({
+      method: "GET",
+      url: `/api/chat/history?stage=intake&limit=2&cursor=${page.next_cursor}`,
+      headers: { cookie }
+    });
+    expect(older.json().messages.map((message: { content: string }) => message.content)).toEqual(["First"]);
+    expect(older.json().next_cursor).toBeNull();
+  });
+
+  it("pages only the active branch after a fork", async () => {
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie);
+    const question = await insertChatMessage({ sessionId, stage: "intake", role: "user", content: "Q1" });
+    const answer = await insertChatMessage({ sessionId, stage: "intake", role: "assistant", content: "A1", parentId: question });
+    const original = await insertChatMessage({ sessionId, stage: "intake", role: "user", content: "Q2", parentId: answer });
+    await insertChatMessage({ sessionId, stage: "intake", role: "assistant", content: "A2", parentId: original });
+    const edited = await insertChatMessage({ sessionId, stage: "intake", role: "user", content: "Q2 edited", parentId: answer });
+    await insertChatMessage({ sessionId, stage: "intake", role: "assistant", content: "A2 edited", parentId: edited });
+
+    const latest = await app.inject({ method: "GET", url: "/api/chat/history?stage=intake&limit=2", headers: { cookie } });
+    expect(latest.json().messages.map((message: { content: string }) => message.content)).toEqual(["Q2 edited", "A2 edited"]);
+    expect(latest.json().next_cursor).toBe(String(edited));
+
+    const older = await app.inject({
+      method: "GET",
+      url: `/api/chat/history?stage=intake&limit=2&cursor=${latest.json().next_cursor}`,
+      headers: { cookie }
+    });
+    expect(older.json().messages.map((message: { content: string }) => message.content)).toEqual(["Q1", "A1"]);
+    expect(older.json().next_cursor).toBeNull();
+  });
+
+  it("hides ready flags from stored assistant replies", async () => {
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie);
+    await db.insert(chatMessages).values({
+      sessionId,
+      stage: "intake",
+      role: "assistant",
+      content: "Shall I draft the one-pager?\nREADY_TO_DRAFT"
+    });
+
+    const response = await app.inject({ method: "GET", url: "/api/chat/history?stage=intake", headers: { cookie } });
+
+    expect(response.json().messages[0].content).toBe("Shall I draft the one-pager?");
+  });
+
+  it("rejects unknown stages and malformed cursors", async () => {
+    const cookie = await createSession();
+
+    const badStage = await app.inject({ method: "GET", url: "/api/chat/history?stage=nope", headers: { cookie } });
+    expect(badStage.statusCode).toBe(400);
+    expect(badStage.json()).toEqual({ error: "INVALID_STAGE" });
+
+    const badCursor = await app.inject({
+      method: "GET",
+      url: "/api/chat/history?stage=intake&cursor=abc",
+      headers: { cookie }
+    });
+    expect(badCursor.json()).toEqual({ error: "INVALID_CURSOR" });
+
+    const badLimit = await app.inject({
+      method: "GET",
+      url: "/api/chat/history?stage=intake&limit=0",
+      headers: { cookie }
+    });
+    expect(badLimit.json()).toEqual({ error: "INVALID_LIMIT" });
+
+    const anonymous = await app.inject({ method: "GET", url: "/api/chat/history?stage=intake" });
+    expect(anonymous.statusCode).toBe(401);
+  });
+});
+
+describe("later stage assistants", () => {
+  it("grounds the design assistant in spec.md and hides its ready flag", async () => {
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie);
+    await setDocContent(sessionId, "spec.md", "# Spec\n\nBakery order board for front-counter staff.");
+    mockStreamedResponse("Shall I draft the design brief?\nREADY_TO_DRAFT_DESIGN");
+
+    const response = await postChat(cookie, { message: "Tablets only, please.", stage: "design" });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).not.toContain("READY_TO_DRAFT_DESIGN");
+    const [system] = (streamResponse as Mock).mock.calls.at(-1)?.[0].input;
+    expect(system.role).toBe("system");
+    expect(system.content).toContain("Bakery order board for front-counter staff.");
+    expect(system.content).toContain("READY_TO_DRAFT_DESIGN");
+    expect((await fetchHistory(cookie, "design")).at(-1)?.content).toBe("Shall I draft the design brief?");
+    const reply = await db.query.chatMessages.findFirst({
+      where: and(eq(chatMessages.sessionId, sessionId), eq(chatMessages.role, "assistant"), eq(chatMessages.stage, "design"))
+    });
+    expect(reply).toMatchObject({ promptId: "chat.design", promptVersion: 1 });
+  });
+
+  it("gives the prompt_plan and agents assistants their upstream docs", async () => {
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie);
+    await setDocContent(sessionId, "spec.md", "# Spec\n\nBakery order board.");
+    await setDocContent(sessionId, "prompt_plan.md", "# Prompt Plan\n\n## Design Prompt\n\nLandscape tablets.");
+
+    mockStreamedResponse("Which milestone comes first?");
+    await postChat(cookie, { message: "Let's plan.", stage: "prompt_plan" });
+    const planSystem = (streamResponse as Mock).mock.calls.at(-1)?.[0].input[0].content;
+    expect(planSystem).toContain("Landscape tablets.");
+    expect(planSystem).toContain("READY_TO_PLAN");
+
+    mockStreamedResponse("Which package manager do you use?");
+    await postChat(cookie, { message: "Let's write the handbook.", stage: "agents" });
+    const agentsSystem = (streamResponse as Mock).mock.calls.at(-1)?.[0].input[0].content;
+    expect(agentsSystem).toContain("Bakery order board.");
+    expect(agentsSystem).toContain("READY_TO_WRITE_AGENTS");
+  });
+
+  it("starts a later stage's writer only on a draft command or an agreed ready prompt", () => {
+    const asks = (stage: StageName, message: string, readyFlag?: string) =>
+      shouldTriggerStageRun(stage, [userTurn("Some context."), userTurn(message)], readyFlag);
+
+    expect(asks("design", "Please draft the design brief")).toBe(true);
+    expect(asks("prompt_plan", "Write the prompt plan now.")).toBe(true);
+    expect(asks("agents", "Generate AGENTS.md")).toBe(true);
+
+    expect(asks("prompt_plan", "We write tests before each step of the plan.", "READY_TO_PLAN")).toBe(false);
+    expect(asks("agents", "Agents should never create migrations.", "READY_TO_WRITE_AGENTS")).toBe(false);
+    expect(asks("design", "The brief should make the order board readable from afar.")).toBe(false);
+
+    const prompted = [
+      userTurn("Tablets only."),
+      { ...userTurn("Shall I draft the design brief?\nREADY_TO_DRAFT_DESIGN"), role: "assistant" as const },
+      userTurn("Yes, go ahead.")
+    ];
+    expect(shouldTriggerStageRun("design", prompted, "READY_TO_DRAFT_DESIGN")).toBe(true);
+  });
+});
+
+describe("chat branches", () => {
+  it("replaces an edited user message in the model input and the history", async () => {
+    const cookie = await createSession();
+    mockStreamedResponse("Who is it for?");
+    await postChat(cookie, { message: "A planner for bakeries", stage: "intake" });
+    mockStreamedResponse("Which platform?");
+    await postChat(cookie, { message: "Everyone", stage: "intake" });
+
+    const original = (await fetchHistory(cookie)).find((message) => message.content === "Everyone");
+    mockStreamedResponse("Web or tablet?");
+    const edited = await postChat(cookie, { message: "Bakery owners", stage: "intake", edit_of: original!.id });
+
+    expect(edited.statusCode).toBe(200);
+    const input = JSON.stringify((streamResponse as Mock).mock.calls.at(-1)?.[0].input);
+    expect(input).toContain("Bakery owners");
+    expect(input).not.toContain("Everyone");
+    expect(input).not.toContain("Which platform?");
+    expect((await fetchHistory(cookie)).map((message) => message.content)).toEqual([
+      "A planner for bakeries",
+      "Who is it for?",
+      "Bakery owners",
+      "Web or tablet?"
+    ]);
+  });
+
+  it("regenerates an assistant reply without repeating the user message", async () => {
+    const cookie = await createSession();
+    mockStreamedResponse("Who is it for?");
+    await postChat(cookie, { message: "A planner for bakeries", stage: "intake" });
+
+    const [, reply] = await fetchHistory(cookie);
+    mockStreamedResponse("What problem does it solve?");
+    const regenerated = await postChat(cookie, { message: "", stage: "intake", regenerate_of: reply.id });
+
+    expect(regenerated.statusCode).toBe(200);
+    const input = (streamResponse as Mock).mock.calls.at(-1)?.[0].input;
+    expect(input.at(-1)).toMatchObject({ role: "user", content: "A planner for bakeries" });
+    expect(JSON.stringify(input)).not.toContain("Who is it for?");
+    const history = await fetchHistory(cookie);
+    expect(history.map((message) => message.content)).toEqual(["A planner for bakeries", "What problem does it solve?"]);
+    expect(history[1].parent_id).toBe(history[0].id);
+  });
+
+  it("rejects edits of messages outside the stage and releases the chat lock", async () => {
+    const cookie = await createSession();
+    mockStreamedResponse("Who is it for?");
+    await postChat(cookie, { message: "A planner for bakeries", stage: "intake" });
+    const [prompt, reply] = await fetchHistory(cookie);
+
+    const wrongRole = await postChat(cookie, { message: "Edited", stage: "intake", edit_of: reply.id });
+    expect(wrongRole.statusCode).toBe(404);
+    expect(wrongRole.json()).toEqual({ error: "CHAT_MESSAGE_NOT_FOUND" });
+
+    const wrongStage = await postChat(cookie, { message: "Edited", stage: "spec", edit_of: prompt.id });
+    expect(wrongStage.statusCode).toBe(404);
+
+    mockStreamedResponse("Still here");
+    const next = await postChat(cookie, { message: "Next", stage: "intake" });
+    expect(next.statusCode).toBe(200);
+  });
+});
+
+describe("resumable streams", () => {
+  it("tags every frame with a monotonically increasing id", async () => {
+    mockStreamedResponse("One", " two");
+    const cookie = await createSession();
+
+    const first = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "Hi", stage: "intake" }
+    });
+    expect(first.headers["x-chat-event-cursor"]).toBe("0");
+    expect(extractEventIds(first.body)).toEqual([1, 2]);
+
+    mockStreamedResponse("Three");
+    const second = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "Again", stage: "intake" }
+    });
+    expect(second.headers["x-chat-event-cursor"]).toBe("2");
+    expect(extractEventIds(second.body)).toEqual([3]);
+  });
+
+  it("replays only the events after Last-Event-ID without re-posting the message", async () => {
+    mockStreamedResponse("Alpha", " Beta", " Gamma");
+    const cookie = await createSession();
+    const sessionId = extractSessionId(cookie as string);
+
+    await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "Start", stage: "intake" }
+    });
+
+    const resumed = await app.inject({
+      method: "GET",
+      url: "/api/chat",
+      headers: { cookie, "last-event-id": "1" }
+    });
+
+    expect(resumed.statusCode).toBe(200);
+    expect(resumed.headers["content-type"]).toContain("text/event-stream");
+    expect(extractEventIds(resumed.body)).toEqual([2, 3]);
+    expect(resumed.body).not.toContain("Alpha");
+    expect(resumed.body).toContain("Gamma");
+
+    const userRows = await db.query.chatMessages.findMany({
+      where: (table) => and(eq(table.sessionId, sessionId), eq(table.role, "user"))
+    });
+    expect(userRows).toHaveLength(1);
+  });
+
+  it("tells a client resuming past the replay buffer to reload the history", async () => {
+    const chunks = Array.from({ length: CHAT_REPLAY_BUFFER_SIZE + 10 }, (_, index) => `w${index} `);
+    mockStreamedResponse(...chunks);
+    const cookie = await createSession();
+
+    const started = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie },
+      payload: { message: "Start", stage: "intake" }
+    });
+    const firstId = Number(started.headers["x-chat-event-cursor"]) + 1;
+
+    const resumed = await app.inject({
+      method: "GET",
+      url: "/api/chat",
+      headers: { cookie, "last-event-id": String(firstId) }
+    });
+
+    expect(resumed.body).toContain('event: stream.reset\ndata: {"reason":"REPLAY_GAP"}');
+    expect(resumed.body.indexOf("stream.reset")).toBeLessThan(resumed.body.indexOf("assistant.delta"));
+    expect(extractEventIds(resumed.body)).toHaveLength(CHAT_REPLAY_BUFFER_SIZE);
+
+    const caughtUp = await app.inject({
+      method: "GET",
+      url: "/api/chat",
+      headers: { cookie, "last-event-id": String(firstId + 10) }
+    });
+    expect(caughtUp.body).not.toContain("stream.reset");
+  });
+
+  it("rejects resume requests without a usable Last-Event-ID", async () => {
+    const cookie = await createSession();
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/chat",
+      headers: { cookie, "last-event-id": "abc" }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe("INVALID_LAST_EVENT_ID");
+  });
+});
+
 describe("intake readiness gating", () => {
   it("waits for user confirmation even after READY_TO_DRAFT", async () => {
     const cookie = await createSession();
@@ -238,7 +611,7 @@ describe("intake readiness gating", () => {
     Reflect.set(process.env, "NODE_ENV", "development");
 
     try {
-      mockOpenAIResponseLegacy("We gathered the essentials. Want me to draft it?\nREADY_TO_DRAFT");
+      mockStreamedResponse("We gathered the essentials. Want me to draft it?\nREADY_TO_DRAFT");
       const initial = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -249,7 +622,7 @@ describe("intake readiness gating", () => {
       expect(initial.body).not.toContain("event: doc.updated");
       expect(initial.body).not.toContain("event: stage.ready");
 
-      mockOpenAIResponseLegacy("On it. I'll compile what we have.");
+      mockStreamedResponse("On it. I'll compile what we have.");
       const confirm = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -270,7 +643,7 @@ describe("intake readiness gating", () => {
   });
 
   it("allows drafting before READY_TO_DRAFT when the user requests it", async () => {
-    mockOpenAIResponseLegacy("I still have more questions, but here's another thought.");
+    mockStreamedResponse("I still have more questions, but here's another thought.");
     const cookie = await createSession();
     const sessionId = extractSessionId(cookie as string);
     const originalEnv = process.env.NODE_ENV;
@@ -307,7 +680,7 @@ describe("spec readiness gating", () => {
     Reflect.set(process.env, "NODE_ENV", "development");
 
     try {
-      mockOpenAIResponseLegacy("I can compile the spec when you give the go-ahead.\nREADY_TO_COMPILE_SPEC");
+      mockStreamedResponse("I can compile the spec when you give the go-ahead.\nREADY_TO_COMPILE_SPEC");
       const initial = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -317,7 +690,7 @@ describe("spec readiness gating", () => {
       expect(initial.body).not.toContain("event: stage.ready");
       expect(initial.body).not.toContain("event: doc.updated");
 
-      mockOpenAIResponseLegacy("Done. I've captured everything we discussed.");
+      mockStreamedResponse("Done. I've captured everything we discussed.");
       const confirm = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -345,7 +718,7 @@ describe("spec readiness gating", () => {
     Reflect.set(process.env, "NODE_ENV", "development");
 
     try {
-      mockOpenAIResponseLegacy("Let's keep exploring a few details.");
+      mockStreamedResponse("Let's keep exploring a few details.");
       const response = await app.inject({
         method: "POST",
         url: "/api/chat",
@@ -380,7 +753,7 @@ describe("stream lifecycle", () => {
     });
 
     await serverApp.ready();
-    mockOpenAIResponse("stream ready");
+    mockStreamedResponse("stream ready");
     const cookie = await createSession(serverApp);
 
     await serverApp.inject({
@@ -395,39 +768,15 @@ describe("stream lifecycle", () => {
   });
 });
 
-function mockOpenAIResponseLegacy(text: string) {
-  (generateResponse as Mock).mockResolvedValueOnce({
-    output: [
-      {
-        type: "message",
-        message: {
-          role: "assistant",
-          content: [{ type: "output_text", text }]
-        }
-      }
-    ]
-  });
-}
-
-function mockOpenAIResponseNewShape(text: string) {
-  (generateResponse as Mock).mockResolvedValueOnce({
-    output: [
-      {
-        type: "message",
-        role: "assistant",
-        content: [{ type: "text", text }]
-      }
-    ]
+function mockStreamedResponse(...chunks: string[]) {
+  (streamResponse as Mock).mockImplementationOnce(async function* () {
+    yield* chunks;
   });
 }
 
-const mockOpenAIResponse = mockOpenAIResponseLegacy;
-
-function mockOpenAIResponseOutputText(text: string) {
-  (generateResponse as Mock).mockResolvedValueOnce({
-    output: [],
-    output_text: [text]
-  });
+async function* failingStream(chunks: string[], error: unknown) {
+  yield* chunks;
+  throw error;
 }
 
 async function createSession(instance: FastifyInstance = app) {
@@ -435,6 +784,26 @@ async function createSession(instance: FastifyInstance = app) {
   return init.headers["set-cookie"] as string;
 }
 
+type HistoryMessage = { id: number; parent_id: number | null; role: string; content: string };
+
+function postChat(cookie: string, payload: Record<string, unknown>) {
+  return app.inject({ method: "POST", url: "/api/chat", headers: { cookie }, payload });
+}
+
+async function fetchHistory(cookie: string, stage: StageName = "intake") {
+  const response = await app.inject({ method: "GET", url: `/api/chat/history?stage=${stage}`, headers: { cookie } });
+  return response.json().messages as HistoryMessage[];
+}
+
+async function insertChatMessage(values: typeof chatMessages.$inferInsert) {
+  const [inserted] = await db.insert(chatMessages).values(values).returning({ id: chatMessages.id });
+  return inserted.id;
+}
+
+function extractEventIds(body: string) {
+  return [...body.matchAll(/^id: (\d+)$/gm)].map((match) => Number(match[1]));
+}
+
 function extractSessionId(cookie: string) {
   const match = /sid=([^;]+)/.exec(cookie);
   expect(match).not.toBeNull();
@@ -473,3 +842,7 @@ Chat, docs, approvals.
 ## Non-Goals
 Native mobile apps.`;
 }
+
+function userTurn(content: string) {
+  return { role: "user", content } as ChatMessageRow;
+}
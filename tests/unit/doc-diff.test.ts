@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { diffDocs, extractSections } from "../../src/utils/doc-diff";
+
+describe("extractSections", () => {
+  it("maps each heading to the body that follows it", () => {
+    expect(extractSections("# Spec\nIntro\n## Requirements\n- One\n")).toEqual({
+      Spec: "Intro",
+      Requirements: "- One"
+    });
+  });
+});
+
+describe("diffDocs", () => {
+  it("tags added and removed lines with their sections", () => {
+    const before = "# Spec\n## Requirements\n- Login\n## Risks\n- Scope creep\n";
+    const after = "# Spec\n## Requirements\n- Login\n- Export\n## Testing Plan\n- Unit tests\n";
+
+    const diff = diffDocs(before, after);
+
+    expect(diff.stats).toEqual({ added: 3, removed: 2 });
+    expect(diff.lines).toContainEqual({ type: "added", text: "- Export", section: "Requirements" });
+    expect(diff.lines).toContainEqual({ type: "removed", text: "- Scope creep", section: "Risks" });
+    expect(diff.lines).toContainEqual({ type: "context", text: "- Login", section: "Requirements" });
+    expect(diff.sections).toEqual([
+      { heading: "Spec", status: "unchanged" },
+      { heading: "Requirements", status: "changed" },
+      { heading: "Testing Plan", status: "added" },
+      { heading: "Risks", status: "removed" }
+    ]);
+  });
+
+  it("treats an empty base as all additions", () => {
+    const diff = diffDocs("", "# Title\nBody");
+    expect(diff.lines.map((line) => line.type)).toEqual(["added", "added"]);
+  });
+
+  it("reports the changed middle of very large docs as replaced instead of aligning it", () => {
+    const lines = (prefix: string) => Array.from({ length: 2_500 }, (_, index) => `${prefix} ${index}`);
+    const before = ["# Plan", ...lines("old"), "## Footer"].join("\n");
+    const after = ["# Plan", ...lines("new"), "## Footer"].join("\n");
+
+    const diff = diffDocs(before, after);
+
+    expect(diff.stats).toEqual({ added: 2_500, removed: 2_500 });
+    expect(diff.lines[0]).toEqual({ type: "context", text: "# Plan", section: "Plan" });
+    expect(diff.lines[1]).toMatchObject({ type: "removed", text: "old 0" });
+    expect(diff.lines[2_501]).toMatchObject({ type: "added", text: "new 0" });
+    expect(diff.lines.at(-1)).toEqual({ type: "context", text: "## Footer", section: "Footer" });
+  });
+});
@@ -3,14 +3,17 @@ import { eq, and } from "drizzle-orm";
 import { db } from "../../src/db/client";
 import { docs } from "../../src/db/schema";
 import { createApp, type NextRequestHandler } from "../../src/server";
+import { listDocVersions, writeDocVersion } from "../../src/services/doc-versions";
+import { sha256String } from "../../src/utils/export";
 
 vi.mock("../../src/services/orchestrator", () => ({
   orchestrator: {
     reingest: vi.fn().mockResolvedValue(undefined)
-  }
+  },
+  runStage: vi.fn()
 }));
 
-const { orchestrator } = await import("../../src/services/orchestrator");
+const { orchestrator, runStage } = await import("../../src/services/orchestrator");
 
 const noopNextHandler: NextRequestHandler = async (_req, res) => {
   res.statusCode = 404;
@@ -81,6 +84,220 @@ describe("docs routes", () => {
   });
 });
 
+describe("doc version history", () => {
+  it("records user edits and stage writer output as versions", async () => {
+    const session = await createSession();
+
+    await putDoc(session.cookie, "spec.md", "# Spec\nHand-written requirements.");
+    await writeDocVersion({
+      sessionId: session.sessionId,
+      name: "spec.md",
+      content: "# Spec\nRegenerated.",
+      author: "stage_writer",
+      stage: "spec"
+    });
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/docs/spec.md/versions",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { versions } = response.json<{ versions: Array<{ id: number; author: string; stage: string | null; content_hash: string }> }>();
+    expect(versions.map((v) => [v.author, v.stage])).toEqual([
+      ["stage_writer", "spec"],
+      ["user", null]
+    ]);
+    expect(versions[1]?.content_hash).toBe(sha256String("# Spec\nHand-written requirements."));
+
+    const detail = await app.inject({
+      method: "GET",
+      url: `/api/docs/spec.md/versions/${versions[1]!.id}`,
+      headers: { cookie: session.cookie }
+    });
+    expect(detail.json().content).toBe("# Spec\nHand-written requirements.");
+  });
+
+  it("snapshots unversioned content before a writer overwrites it", async () => {
+    const session = await createSession();
+    await db
+      .update(docs)
+      .set({ content: "Legacy notes" })
+      .where(and(eq(docs.sessionId, session.sessionId), eq(docs.name, "spec.md")));
+
+    await writeDocVersion({
+      sessionId: session.sessionId,
+      name: "spec.md",
+      content: "Generated",
+      author: "stage_writer",
+      stage: "spec"
+    });
+
+    const versions = await listDocVersions(session.sessionId, "spec.md");
+    expect(versions).toHaveLength(2);
+    const original = await app.inject({
+      method: "GET",
+      url: `/api/docs/spec.md/versions/${versions[1]!.id}`,
+      headers: { cookie: session.cookie }
+    });
+    expect(original.json().content).toBe("Legacy notes");
+  });
+
+  it("restores a prior version as a new version entry", async () => {
+    const session = await createSession();
+    await putDoc(session.cookie, "spec.md", "Keep me");
+    await putDoc(session.cookie, "spec.md", "Bad rewrite");
+    const [, keep] = await listDocVersions(session.sessionId, "spec.md");
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/docs/spec.md/versions/${keep!.id}/restore`,
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ ok: true, restored_from: keep!.id });
+    const doc = await db.query.docs.findFirst({
+      where: (table) => and(eq(table.sessionId, session.sessionId), eq(table.name, "spec.md"))
+    });
+    expect(doc?.content).toBe("Keep me");
+    const versions = await listDocVersions(session.sessionId, "spec.md");
+    expect(versions[0]?.author).toBe("restore");
+  });
+
+  it("returns 404 for versions from another doc", async () => {
+    const session = await createSession();
+    await putDoc(session.cookie, "spec.md", "Spec text");
+    const [version] = await listDocVersions(session.sessionId, "spec.md");
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/docs/AGENTS.md/versions/${version!.id}`,
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().error).toBe("VERSION_NOT_FOUND");
+  });
+});
+
+describe("doc diff endpoint", () => {
+  it("defaults to comparing the current doc with the previous distinct version", async () => {
+    const session = await createSession();
+    await putDoc(session.cookie, "spec.md", "# Spec\n## Requirements\n- Hand-written rule\n");
+    await writeDocVersion({
+      sessionId: session.sessionId,
+      name: "spec.md",
+      content: "# Spec\n## Requirements\n- Generated rule\n",
+      author: "stage_writer",
+      stage: "spec"
+    });
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/docs/spec.md/diff",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.to).toBe("current");
+    expect(typeof body.from).toBe("number");
+    expect(body.lines).toEqual(
+      expect.arrayContaining([
+        { type: "removed", text: "- Hand-written rule", section: "Requirements" },
+        { type: "added", text: "- Generated rule", section: "Requirements" }
+      ])
+    );
+    expect(body.sections).toContainEqual({ heading: "Requirements", status: "changed" });
+  });
+
+  it("diffs explicit version ids and rejects malformed refs", async () => {
+    const session = await createSession();
+    await putDoc(session.cookie, "spec.md", "A");
+    await putDoc(session.cookie, "spec.md", "B");
+    const [latest, first] = await listDocVersions(session.sessionId, "spec.md");
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/docs/spec.md/diff?from=${latest!.id}&to=${first!.id}`,
+      headers: { cookie: session.cookie }
+    });
+    expect(response.json().stats).toEqual({ added: 1, removed: 1 });
+
+    const invalid = await app.inject({
+      method: "GET",
+      url: "/api/docs/spec.md/diff?from=latest",
+      headers: { cookie: session.cookie }
+    });
+    expect(invalid.statusCode).toBe(400);
+  });
+});
+
+describe("doc regeneration", () => {
+  it("reruns the stage that writes the doc", async () => {
+    const session = await createSession();
+    vi.mocked(runStage).mockResolvedValueOnce({ llmCalls: 1, events: [], status: "ready" });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/docs/prompt_plan.md/regenerate",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, name: "prompt_plan.md" });
+    expect(runStage).toHaveBeenCalledWith({ sessionId: session.sessionId, stage: "prompt_plan" });
+  });
+
+  it("surfaces the writer's needs_more reason", async () => {
+    const session = await createSession();
+    vi.mocked(runStage).mockResolvedValueOnce({
+      llmCalls: 0,
+      events: [{ event: "stage.needs_more", data: { stage: "spec", reason: "MISSING_ONE_PAGER" } }],
+      status: "needs_more"
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/docs/spec.md/regenerate",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json()).toEqual({ ok: false, name: "spec.md", reason: "MISSING_ONE_PAGER" });
+  });
+
+  it("refuses to regenerate approved docs", async () => {
+    const session = await createSession();
+    await db
+      .update(docs)
+      .set({ approved: true })
+      .where(and(eq(docs.sessionId, session.sessionId), eq(docs.name, "spec.md")));
+    vi.mocked(runStage).mockClear();
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/docs/spec.md/regenerate",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().error).toBe("DOC_APPROVED");
+    expect(runStage).not.toHaveBeenCalled();
+  });
+});
+
+async function putDoc(cookie: string, name: string, content: string) {
+  return app.inject({
+    method: "PUT",
+    url: `/api/docs/${name}`,
+    headers: { cookie },
+    payload: { content }
+  });
+}
+
 async function createSession() {
   const response = await app.inject({ method: "POST", url: "/api/session/init" });
   const { session_id } = response.json<{ session_id: string }>();
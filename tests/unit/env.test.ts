@@ -21,4 +21,19 @@ describe("env loader", () => {
       } as NodeJS.ProcessEnv)
     ).toThrow(/PORT/);
   });
+
+  it("parses an optional stage token budget", () => {
+    expect(loadEnv({ NODE_ENV: "test", STAGE_TOKEN_BUDGET: "20000" } as NodeJS.ProcessEnv).STAGE_TOKEN_BUDGET).toBe(20000);
+    expect(loadEnv({ NODE_ENV: "test" } as NodeJS.ProcessEnv).STAGE_TOKEN_BUDGET).toBeUndefined();
+    expect(() => loadEnv({ NODE_ENV: "test", STAGE_TOKEN_BUDGET: "-5" } as NodeJS.ProcessEnv)).toThrow(
+      /STAGE_TOKEN_BUDGET/
+    );
+  });
+
+  it("parses an optional chat context token budget", () => {
+    expect(loadEnv({ NODE_ENV: "test", CHAT_CONTEXT_TOKENS: "8000" } as NodeJS.ProcessEnv).CHAT_CONTEXT_TOKENS).toBe(8000);
+    expect(() => loadEnv({ NODE_ENV: "test", CHAT_CONTEXT_TOKENS: "lots" } as NodeJS.ProcessEnv)).toThrow(
+      /CHAT_CONTEXT_TOKENS/
+    );
+  });
 });
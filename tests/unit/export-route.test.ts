@@ -30,6 +30,10 @@ describe("/api/export/zip", () => {
       .update(docs)
       .set({ content: "# Idea\nHello" })
       .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "idea_one_pager.md" as any)));
+    await db
+      .update(docs)
+      .set({ content: "### Step 1: Setup\n- [x] Init repo" })
+      .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md" as any)));
 
     const img = Buffer.from([0, 1, 2, 3, 4, 5]);
     const sha = createHash("sha256").update(img).digest("hex");
@@ -60,6 +64,11 @@ describe("/api/export/zip", () => {
     expect(files.has("idea_one_pager.md")).toBe(true);
     expect(files.get("idea_one_pager.md")!.toString("utf8")).toContain("Hello");
 
+    // parsed plan present
+    expect(files.has("prompt_plan.json")).toBe(true);
+    const plan = JSON.parse(files.get("prompt_plan.json")!.toString("utf8"));
+    expect(plan.steps).toMatchObject([{ id: "step-1", title: "Setup", done: true }]);
+
     // design present under designs/
     expect(files.has("designs/1-Landing.png")).toBe(true);
     const designData = files.get("designs/1-Landing.png")!;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createFixtureProvider } from "../../src/libs/fixture-llm";
+
+const fixtures = {
+  responses: [
+    { match: "functional spec", text: "# Functional Spec\n\nDrafted offline." },
+    { match: "Idea", text: "# Idea Overview" }
+  ],
+  default: "Offline reply."
+};
+
+describe("fixture LLM provider", () => {
+  it("answers with the first fixture whose match appears in the input", async () => {
+    const provider = createFixtureProvider({ fixtures });
+
+    const completion = await provider.complete({
+      input: [
+        { role: "system", content: "Write the functional spec from the Idea doc." },
+        { role: "user", content: [{ type: "input_text", text: "go" }] }
+      ],
+      temperature: 0.2
+    });
+
+    expect(provider).toMatchObject({ name: "fixture", model: "fixture" });
+    expect(completion.text).toBe("# Functional Spec\n\nDrafted offline.");
+    expect(completion.usage).toEqual({ inputTokens: 12, outputTokens: 9 });
+  });
+
+  it("falls back to the default response", async () => {
+    const provider = createFixtureProvider({ fixtures });
+
+    await expect(provider.complete({ input: "hello", temperature: 0 })).resolves.toMatchObject({
+      text: "Offline reply."
+    });
+  });
+
+  it("streams the same text deterministically, followed by usage", async () => {
+    const provider = createFixtureProvider({ fixtures });
+    const chunks = [];
+    for await (const chunk of provider.stream({ input: "hello", temperature: 0.2 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { type: "delta", text: "Offline " },
+      { type: "delta", text: "reply." },
+      { type: "usage", usage: { inputTokens: 2, outputTokens: 4 } }
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import { randomUUID } from "node:crypto";
+import { eq } from "drizzle-orm";
+import type { CheckpointTuple } from "@langchain/langgraph-checkpoint";
+import { db } from "../../src/db/client";
+import { graphCheckpoints, sessions } from "../../src/db/schema";
+import type { StageDriver } from "../../src/orchestrator/types";
+import { LibsqlCheckpointSaver } from "../../src/orchestrator/checkpointer";
+import { listStageCheckpoints, runStage } from "../../src/services/orchestrator";
+
+const noopReingest = async () => {};
+
+describe("libsql graph checkpointer", () => {
+  it("persists stage runs so a new saver instance can read them back", async () => {
+    const sessionId = randomUUID();
+    const driver: StageDriver = { run: vi.fn().mockResolvedValue({ status: "ready" }) };
+
+    const result = await runStage({ sessionId, stage: "spec", driver, reingest: noopReingest });
+    expect(result.status).toBe("ready");
+
+    const checkpoints = await listStageCheckpoints(sessionId, "spec");
+    expect(checkpoints.length).toBeGreaterThan(1);
+    expect(checkpoints[0]).toMatchObject({ status: "ready", next: [] });
+    expect(checkpoints.at(-1)?.parent_checkpoint_id).toBeNull();
+
+    const saver = new LibsqlCheckpointSaver();
+    const latest = await saver.getTuple({ configurable: { thread_id: `${sessionId}:spec` } });
+    expect(latest?.config.configurable?.checkpoint_id).toBe(checkpoints[0]?.checkpoint_id);
+    expect(latest?.checkpoint.channel_values).toMatchObject({ status: "ready", sessionId });
+  });
+
+  it("starts each run fresh on the same thread", async () => {
+    const sessionId = randomUUID();
+    const driver: StageDriver = {
+      async run({ emit, budget }) {
+        await budget.consume("generation");
+        emit({ event: "assistant.delta", data: "drafted" });
+        return { status: "ready" };
+      }
+    };
+
+    await runStage({ sessionId, stage: "intake", driver, reingest: noopReingest });
+    const second = await runStage({ sessionId, stage: "intake", driver, reingest: noopReingest });
+
+    expect(second.llmCalls).toBe(1);
+    expect(second.events.filter((event) => event.event === "assistant.delta")).toHaveLength(1);
+  });
+
+  it("resumes from the latest checkpoint without rerunning finished work", async () => {
+    const sessionId = randomUUID();
+    const driver: StageDriver = { run: vi.fn().mockResolvedValue({ status: "ready" }) };
+
+    await runStage({ sessionId, stage: "agents", driver, reingest: noopReingest });
+    const resumed = await runStage({ sessionId, stage: "agents", driver, reingest: noopReingest, resumeFrom: "latest" });
+
+    expect(resumed.status).toBe("ready");
+    expect(driver.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays a stage from an earlier checkpoint", async () => {
+    const sessionId = randomUUID();
+    const failing: StageDriver = { run: vi.fn().mockResolvedValue({ status: "needs_more", reason: "MISSING_SPEC" }) };
+    const first = await runStage({ sessionId, stage: "prompt_plan", driver: failing, reingest: noopReingest });
+    expect(first.status).toBe("needs_more");
+
+    const beforeStage = (await listStageCheckpoints(sessionId, "prompt_plan")).find((checkpoint) =>
+      checkpoint.next.includes("prompt_plan")
+    );
+    expect(beforeStage).toBeDefined();
+
+    const passing: StageDriver = { run: vi.fn().mockResolvedValue({ status: "ready" }) };
+    const replayed = await runStage({
+      sessionId,
+      stage: "prompt_plan",
+      driver: passing,
+      reingest: noopReingest,
+      resumeFrom: beforeStage!.checkpoint_id
+    });
+
+    expect(replayed.status).toBe("ready");
+    expect(passing.run).toHaveBeenCalledTimes(1);
+    const history = await listStageCheckpoints(sessionId, "prompt_plan");
+    expect(history[0]).toMatchObject({ status: "ready" });
+  });
+
+  it("applies list filters, before, and limit in the query", async () => {
+    const sessionId = randomUUID();
+    const driver: StageDriver = { run: vi.fn().mockResolvedValue({ status: "ready" }) };
+    await runStage({ sessionId, stage: "spec", driver, reingest: noopReingest });
+
+    const saver = new LibsqlCheckpointSaver();
+    const config = { configurable: { thread_id: `${sessionId}:spec` } };
+    const all = await collect(saver.list(config));
+    const loops = all.filter((tuple) => tuple.metadata?.source === "loop");
+    expect(loops.length).toBeGreaterThan(1);
+
+    const filtered = await collect(saver.list(config, { filter: { source: "loop" } }));
+    expect(filtered.map(checkpointIdOf)).toEqual(loops.map(checkpointIdOf));
+
+    const page = await collect(saver.list(config, { filter: { source: "loop" }, before: all[0]!.config, limit: 1 }));
+    expect(page.map(checkpointIdOf)).toEqual(loops.filter((tuple) => tuple !== all[0]).slice(0, 1).map(checkpointIdOf));
+
+    expect(await collect(saver.list(config, { filter: { source: "update" } }))).toEqual([]);
+    expect(await collect(saver.list(config, { limit: 0 }))).toEqual([]);
+  });
+
+  it("drops a session's checkpoints when the session is deleted", async () => {
+    const sessionId = randomUUID();
+    await db.insert(sessions).values({ sessionId, currentStage: "intake" });
+    const driver: StageDriver = { run: vi.fn().mockResolvedValue({ status: "ready" }) };
+    await runStage({ sessionId, stage: "intake", driver, reingest: noopReingest });
+    expect(await listStageCheckpoints(sessionId, "intake")).not.toEqual([]);
+
+    await db.delete(sessions).where(eq(sessions.sessionId, sessionId));
+
+    const rows = await db.select().from(graphCheckpoints).where(eq(graphCheckpoints.threadId, `${sessionId}:intake`));
+    expect(rows).toEqual([]);
+  });
+});
+
+async function collect(tuples: AsyncGenerator<CheckpointTuple>) {
+  const collected: CheckpointTuple[] = [];
+  for await (const tuple of tuples) collected.push(tuple);
+  return collected;
+}
+
+function checkpointIdOf(tuple: CheckpointTuple) {
+  return tuple.config.configurable?.checkpoint_id as string;
+}
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { CassetteMissError, cassetteKey, withCassette } from "../../src/libs/llm-cassette";
+import { createFixtureProvider } from "../../src/libs/fixture-llm";
+import { createOpenAIProvider } from "../../src/libs/openai";
+import { setLlmProvider } from "../../src/libs/llm";
+import { runStage } from "../../src/services/orchestrator";
+import { db } from "../../src/db/client";
+import { chatMessages, docNames, docs, sessions, stageNames } from "../../src/db/schema";
+
+const tmpDir = mkdtempSync(path.join(tmpdir(), "llm-cassette-"));
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("LLM cassettes", () => {
+  it("records responses and replays them without calling the provider", async () => {
+    const cassettePath = path.join(tmpDir, `${randomUUID()}.json`);
+    const recorder = withCassette(createFixtureProvider({ fixtures: { default: "Recorded reply." } }), {
+      path: cassettePath,
+      mode: "record"
+    });
+
+    await recorder.complete({ input: "hello", temperature: 0.2 });
+    const streamed: string[] = [];
+    for await (const chunk of recorder.stream({ input: "stream me", temperature: 0.2 })) {
+      if (chunk.type === "delta") streamed.push(chunk.text);
+    }
+
+    const cassette = JSON.parse(readFileSync(cassettePath, "utf8"));
+    const key = cassetteKey({ input: "hello", model: "fixture", temperature: 0.2 });
+    expect(cassette.entries[key]).toMatchObject({
+      request: { model: "fixture", temperature: 0.2, input: "hello" },
+      response: { text: "Recorded reply." }
+    });
+
+    const player = withCassette(createFixtureProvider({ fixtures: { default: "Live reply." } }), {
+      path: cassettePath,
+      mode: "replay"
+    });
+    await expect(player.complete({ input: "hello", temperature: 0.2 })).resolves.toMatchObject({
+      text: "Recorded reply."
+    });
+    const replayed: string[] = [];
+    for await (const chunk of player.stream({ input: "stream me", temperature: 0.2 })) {
+      if (chunk.type === "delta") replayed.push(chunk.text);
+    }
+    expect(replayed).toEqual(streamed);
+  });
+
+  it("keys requests by input, model, and temperature", () => {
+    const base = { input: [{ role: "user" as const, content: "hi" }], model: "gpt-4o-mini", temperature: 0.2 };
+
+    expect(cassetteKey(base)).toBe(cassetteKey({ temperature: 0.2, model: "gpt-4o-mini", input: base.input }));
+    expect(cassetteKey(base)).not.toBe(cassetteKey({ ...base, temperature: 0 }));
+    expect(cassetteKey(base)).not.toBe(cassetteKey({ ...base, model: "gpt-4o" }));
+    expect(cassetteKey(base)).not.toBe(cassetteKey({ ...base, input: [{ role: "user", content: "hi!" }] }));
+  });
+
+  it("fails replays of requests that were never recorded", async () => {
+    const player = withCassette(createFixtureProvider(), {
+      path: path.join(tmpDir, "missing.json"),
+      mode: "replay"
+    });
+
+    await expect(player.complete({ input: "changed prompt", temperature: 0.2 })).rejects.toBeInstanceOf(
+      CassetteMissError
+    );
+  });
+});
+
+/**
+ * Replays a recorded intake → agents run. When a writer prompt changes, its request no longer
+ * matches the cassette and the affected doc falls back to the template, failing these assertions.
+ * Re-record against the real API with:
+ *   LLM_CASSETTE_MODE=record OPENAI_API_KEY=... pnpm vitest run tests/unit/llm-cassette.test.ts
+ */
+describe("recorded intake → agents run", () => {
+  const cassettePath = path.resolve(__dirname, "../fixtures/cassettes/intake-to-agents.json");
+  let sessionId: string | undefined;
+
+  afterEach(async () => {
+    setLlmProvider(undefined);
+    if (sessionId) {
+      await db.delete(sessions).where(eq(sessions.sessionId, sessionId));
+    }
+  });
+
+  it("replays every stage deterministically", async () => {
+    const mode = process.env.LLM_CASSETTE_MODE === "record" ? "record" : "replay";
+    setLlmProvider(
+      withCassette(createOpenAIProvider({ name: "openai", apiKey: process.env.OPENAI_API_KEY, model: "gpt-4o-mini" }), {
+        path: cassettePath,
+        mode
+      })
+    );
+    sessionId = await seedInterviewedSession();
+
+    for (const stage of stageNames.filter((name) => name !== "export")) {
+      const result = await runStage({ sessionId, stage });
+      expect(result.status, stage).toBe("ready");
+    }
+
+    const recorded = Object.values(JSON.parse(readFileSync(cassettePath, "utf8")).entries) as Array<{
+      response: { text: string };
+    }>;
+    const finalDocs = await Promise.all(docNames.map((name) => readDocContent(sessionId!, name)));
+
+    expect(recorded.length).toBeGreaterThan(0);
+    // Every recorded response must have been replayed into a doc rather than replaced by a template
+    for (const entry of recorded) {
+      expect(finalDocs.some((doc) => doc.includes(entry.response.text.trim()))).toBe(true);
+    }
+    expect(finalDocs.every((doc) => doc.trim().length > 0)).toBe(true);
+  });
+});
+
+async function seedInterviewedSession() {
+  const id = randomUUID();
+  const now = Date.now();
+  await db.insert(sessions).values({
+    sessionId: id,
+    currentStage: "intake",
+    approvedIntake: false,
+    approvedSpec: false,
+    approvedDesign: false,
+    approvedPromptPlan: false,
+    approvedAgents: false,
+    createdAt: now,
+    lastActivity: now
+  });
+  await db.insert(docs).values(docNames.map((name) => ({ sessionId: id, name, content: "", approved: false, updatedAt: now })));
+
+  const interview: Array<["intake" | "spec", "assistant" | "user", string]> = [
+    ["intake", "assistant", "What's the core problem you're solving?"],
+    ["intake", "user", "Small bakeries lose track of custom cake orders scattered across DMs and paper tickets."],
+    ["intake", "assistant", "Who is the ideal audience?"],
+    ["intake", "user", "Owners of one- or two-location bakeries and their front-counter staff."],
+    ["intake", "assistant", "Which platform will you target first, and what must the MVP include?"],
+    ["intake", "user", "A tablet-friendly web app with an order board, pickup reminders, and a deposit tracker."],
+    ["spec", "assistant", "How should orders move from request to pickup?"],
+    ["spec", "user", "Requested, quoted, deposit paid, in production, ready, picked up. Staff drag cards between columns."],
+    ["spec", "assistant", "What happens when a reminder fails to send?"],
+    ["spec", "user", "Show a warning badge on the card and retry once after ten minutes."]
+  ];
+  // Explicit timestamps keep the transcript order, and therefore the recorded prompts, stable;
+  // each turn links to the previous one on its stage, as the chat route does
+  const leaves = new Map<string, number>();
+  for (const [index, [stage, role, content]] of interview.entries()) {
+    const [inserted] = await db
+      .insert(chatMessages)
+      .values({ sessionId: id, stage, role, content, createdAt: now + index, parentId: leaves.get(stage) ?? null })
+      .returning({ id: chatMessages.id });
+    leaves.set(stage, inserted.id);
+  }
+  return id;
+}
+
+async function readDocContent(id: string, name: (typeof docNames)[number]) {
+  const row = await db.query.docs.findFirst({
+    where: (table, { and }) => and(eq(table.sessionId, id), eq(table.name, name))
+  });
+  return row?.content ?? "";
+}
@@ -1,9 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
 
 const responsesCreateMock = vi.fn();
+const recordLlmCallMock = vi.fn();
 
 function mockOpenAI() {
-  responsesCreateMock.mockReset();
+  responsesCreateMock.mockReset().mockResolvedValue({ output_text: "" });
   class OpenAIStub {
     responses = { create: responsesCreateMock };
   }
@@ -13,19 +14,22 @@ function mockOpenAI() {
 async function loadOpenAI(overrides?: Partial<NodeJS.ProcessEnv>) {
   vi.resetModules();
   mockOpenAI();
+  recordLlmCallMock.mockReset().mockResolvedValue(undefined);
+  vi.doMock("../../src/services/llm-usage", () => ({ recordLlmCall: recordLlmCallMock }));
   vi.doMock("../../src/env", () => ({
     env: {
       NODE_ENV: "test",
       OPENAI_API_KEY: "test-key",
       OPENAI_MODEL: overrides?.OPENAI_MODEL,
-      OPENAI_API_BASE: overrides?.OPENAI_API_BASE
+      OPENAI_API_BASE: overrides?.OPENAI_API_BASE,
+      LLM_PROVIDER: overrides?.LLM_PROVIDER
     }
   }));
 
-  return import("../../src/libs/openai");
+  return import("../../src/libs/llm");
 }
 
-describe("OpenAI client helpers", () => {
+describe("OpenAI provider", () => {
   it("uses default model and generation settings", async () => {
     const { generateResponse } = await loadOpenAI();
 
@@ -47,4 +51,92 @@ describe("OpenAI client helpers", () => {
       expect.any(Object)
     );
   });
+
+  it("streams output text deltas and surfaces error events", async () => {
+    const { streamResponse } = await loadOpenAI();
+    responsesCreateMock.mockResolvedValueOnce(
+      (async function* () {
+        yield { type: "response.created" };
+        yield { type: "response.output_text.delta", delta: "Hel" };
+        yield { type: "response.output_text.delta", delta: "lo" };
+        yield { type: "error", message: "boom", code: "server_error" };
+      })()
+    );
+
+    const received: string[] = [];
+    await expect(
+      (async () => {
+        for await (const delta of streamResponse({ input: "hello" })) {
+          received.push(delta);
+        }
+      })()
+    ).rejects.toMatchObject({ name: "OpenAIStreamError", code: "server_error" });
+
+    expect(received).toEqual(["Hel", "lo"]);
+    expect(responsesCreateMock).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, temperature: 0.2 }),
+      expect.any(Object)
+    );
+  });
+
+  it("records usage for calls attributed to a session", async () => {
+    const { generateResponse } = await loadOpenAI();
+    responsesCreateMock.mockResolvedValueOnce({ usage: { input_tokens: 120, output_tokens: 30, total_tokens: 150 } });
+    const onUsage = vi.fn();
+
+    await generateResponse({ input: "hello", context: { sessionId: "sess-1", stage: "spec", onUsage } });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 120, outputTokens: 30 });
+    expect(recordLlmCallMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: "sess-1",
+        stage: "spec",
+        kind: "generation",
+        model: "gpt-4o-mini",
+        inputTokens: 120,
+        outputTokens: 30,
+        ok: true,
+        latencyMs: expect.any(Number)
+      })
+    );
+  });
+
+  it("records failed calls and skips accounting without a session", async () => {
+    const { validateResponse } = await loadOpenAI();
+    responsesCreateMock.mockRejectedValueOnce(new Error("timeout"));
+
+    await expect(validateResponse({ input: "ping", context: { sessionId: "sess-2" } })).rejects.toThrow("timeout");
+    expect(recordLlmCallMock).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: "sess-2", kind: "validation", ok: false, inputTokens: 0 })
+    );
+
+    recordLlmCallMock.mockClear();
+    responsesCreateMock.mockResolvedValueOnce({ usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 } });
+    await validateResponse({ input: "ping" });
+    expect(recordLlmCallMock).not.toHaveBeenCalled();
+  });
+
+  it("records streamed usage from the completed event", async () => {
+    const { streamResponse } = await loadOpenAI();
+    responsesCreateMock.mockResolvedValueOnce(
+      (async function* () {
+        yield { type: "response.output_text.delta", delta: "Hi" };
+        yield { type: "response.completed", response: { usage: { input_tokens: 40, output_tokens: 2, total_tokens: 42 } } };
+      })()
+    );
+
+    for await (const _delta of streamResponse({ input: "hello", context: { sessionId: "sess-3", stage: null } })) {
+      // drain
+    }
+
+    expect(recordLlmCallMock).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: "sess-3", kind: "chat", inputTokens: 40, outputTokens: 2, ok: true })
+    );
+  });
+
+  it("selects the OpenAI-compatible provider when OPENAI_API_BASE is set", async () => {
+    const { getLlmProvider } = await loadOpenAI({ OPENAI_API_BASE: "http://localhost:11434/v1" });
+
+    expect(getLlmProvider()).toMatchObject({ name: "openai-compatible", model: "gpt-4o-mini" });
+  });
 });
@@ -1,10 +1,12 @@
 import { describe, expect, it, vi } from "vitest";
 import { randomUUID } from "node:crypto";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { createFixtureProvider } from "../../src/libs/fixture-llm";
+import { setLlmProvider } from "../../src/libs/llm";
 import type { StageDriver } from "../../src/orchestrator/types";
 import { runStage } from "../../src/services/orchestrator";
 import { db } from "../../src/db/client";
-import { chatMessages, docs, docNames, sessions } from "../../src/db/schema";
+import { chatMessages, docs, docNames, llmCalls, sessions } from "../../src/db/schema";
 
 describe("LangGraph stage orchestrator", () => {
   it("runs writers, emits doc.updated + stage.ready, and respects re-ingest policy", async () => {
@@ -48,6 +50,50 @@ describe("LangGraph stage orchestrator", () => {
     expect(result.status).toBe("needs_more");
     expect(result.events.at(-1)?.event).toBe("stage.needs_more");
   });
+
+  it("refuses the drafting call and keeps the doc once the writers spend the token budget", async () => {
+    setLlmProvider(createFixtureProvider({ fixtures: { default: "- Summary of the earlier interview" } }));
+    const sessionId = await seedSession();
+    // Long enough that the intake writer summarizes the older turns before drafting
+    let parentId: number | null = null;
+    for (let index = 0; index < 6; index += 1) {
+      const inserted: Array<{ id: number }> = await db
+        .insert(chatMessages)
+        .values({
+          sessionId,
+          stage: "intake",
+          role: index % 2 === 0 ? "user" : "assistant",
+          content: `Turn ${index}: ${"bakery pre-orders ".repeat(700)}`,
+          parentId
+        })
+        .returning({ id: chatMessages.id });
+      parentId = inserted[0].id;
+    }
+
+    try {
+      const result = await runStage({
+        sessionId,
+        stage: "intake",
+        reingest: async () => {},
+        tokenBudget: 1_000
+      });
+
+      expect(result.status).toBe("needs_more");
+      expect(result.events.at(-1)).toEqual({
+        event: "stage.needs_more",
+        data: { stage: "intake", reason: "BUDGET_EXCEEDED" }
+      });
+      const calls = await db.query.llmCalls.findMany({ where: eq(llmCalls.sessionId, sessionId) });
+      expect(calls).toHaveLength(1);
+      const doc = await db.query.docs.findFirst({
+        where: and(eq(docs.sessionId, sessionId), eq(docs.name, "idea_one_pager.md"))
+      });
+      expect(doc?.content).toBe("");
+    } finally {
+      setLlmProvider(undefined);
+      await cleanupSession(sessionId);
+    }
+  });
 });
 
 async function seedSession() {
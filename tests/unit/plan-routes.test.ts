@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { createApp, type NextRequestHandler } from "../../src/server";
+import { db } from "../../src/db/client";
+import { docVersions, docs, sessions } from "../../src/db/schema";
+import { findUpstreamChanges, sourceHash } from "../../src/services/doc-staleness";
+
+const noopNextHandler: NextRequestHandler = async (_req, res) => {
+  res.statusCode = 404;
+  res.end();
+};
+
+const app = createApp({ nextHandler: noopNextHandler, dev: true });
+
+beforeAll(async () => {
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe("GET /api/plan", () => {
+  it("requires a session", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/plan" });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it("returns prompt_plan.md as typed steps", async () => {
+    const { cookie, sessionId } = await createSession();
+    await db
+      .update(docs)
+      .set({
+        content: "## Implementation Steps\n\n### Step 1: Setup\n**Prompt**\nScaffold it.\n**Checklist**\n- [ ] Init repo"
+      })
+      .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md")));
+
+    const response = await app.inject({ method: "GET", url: "/api/plan", headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      approved: false,
+      steps: [
+        {
+          id: "step-1",
+          number: 1,
+          title: "Setup",
+          prompt: "Scaffold it.",
+          tests: [],
+          checklist: [{ text: "Init repo", checked: false }],
+          depends_on: [],
+          done: false
+        }
+      ]
+    });
+  });
+});
+
+describe("plan checklist routes", () => {
+  const planDoc = "# Prompt Plan\n\n### Step 1: Setup\n- [x] Init repo\n- [ ] Add CI\n\n## TODO\n- [ ] Approve each stage\n";
+
+  it("lists checklist items with per-section progress", async () => {
+    const { cookie, sessionId } = await createSession();
+    await setPlan(sessionId, planDoc);
+
+    const response = await app.inject({ method: "GET", url: "/api/plan/checklist", headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().items).toHaveLength(3);
+    expect(response.json().progress).toEqual({
+      total: 3,
+      done: 1,
+      percent: 33,
+      sections: [
+        { section: "Step 1: Setup", total: 2, done: 1, percent: 50 },
+        { section: "TODO", total: 1, done: 0, percent: 0 }
+      ]
+    });
+  });
+
+  it("toggles an item in place on an approved plan without flagging AGENTS.md as stale", async () => {
+    const { cookie, sessionId } = await createSession();
+    await setPlan(sessionId, planDoc);
+    await db.update(docs).set({ approved: true }).where(and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md")));
+    await db
+      .update(docs)
+      .set({ content: "# AGENTS", sourceHashes: { "prompt_plan.md": sourceHash(planDoc) } })
+      .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "AGENTS.md")));
+
+    const response = await app.inject({
+      method: "PATCH",
+      url: "/api/plan/checklist/1",
+      headers: { cookie },
+      payload: { checked: true, text: "Add CI" }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      item: { index: 1, text: "Add CI", checked: true },
+      progress: { done: 2, total: 3, percent: 67 }
+    });
+    const stored = await db.query.docs.findFirst({
+      where: and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md"))
+    });
+    expect(stored?.content).toBe(planDoc.replace("- [ ] Add CI", "- [x] Add CI"));
+    expect(stored?.approved).toBe(true);
+    const versions = await db.query.docVersions.findMany({
+      where: and(eq(docVersions.sessionId, sessionId), eq(docVersions.name, "prompt_plan.md"))
+    });
+    expect(versions.at(-1)?.content).toBe(stored?.content);
+    expect(await findUpstreamChanges(sessionId)).toEqual({});
+  });
+
+  it("keeps toggling items after the session is finalized", async () => {
+    const { cookie, sessionId } = await createSession();
+    await setPlan(sessionId, planDoc);
+    await db.update(sessions).set({ finalizedAt: Date.now() }).where(eq(sessions.sessionId, sessionId));
+
+    const response = await app.inject({
+      method: "PATCH",
+      url: "/api/plan/checklist/1",
+      headers: { cookie },
+      payload: { checked: true, text: "Add CI" }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ item: { index: 1, checked: true } });
+  });
+
+  it("rejects toggles for missing or changed items", async () => {
+    const { cookie, sessionId } = await createSession();
+    await setPlan(sessionId, planDoc);
+
+    const missing = await app.inject({
+      method: "PATCH",
+      url: "/api/plan/checklist/7",
+      headers: { cookie },
+      payload: { checked: true }
+    });
+    expect(missing.statusCode).toBe(404);
+    expect(missing.json()).toEqual({ error: "CHECKLIST_ITEM_NOT_FOUND" });
+
+    const changed = await app.inject({
+      method: "PATCH",
+      url: "/api/plan/checklist/0",
+      headers: { cookie },
+      payload: { checked: false, text: "Something else" }
+    });
+    expect(changed.statusCode).toBe(409);
+    expect(changed.json()).toEqual({ error: "CHECKLIST_ITEM_CHANGED" });
+
+    const invalid = await app.inject({
+      method: "PATCH",
+      url: "/api/plan/checklist/0",
+      headers: { cookie },
+      payload: { checked: "yes" }
+    });
+    expect(invalid.statusCode).toBe(400);
+  });
+});
+
+async function setPlan(sessionId: string, content: string) {
+  await db
+    .update(docs)
+    .set({ content })
+    .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "prompt_plan.md")));
+}
+
+async function createSession() {
+  const response = await app.inject({ method: "POST", url: "/api/session/init" });
+  const cookie = response.headers["set-cookie"] as string;
+  const { session_id } = response.json<{ session_id: string }>();
+  return { cookie, sessionId: session_id };
+}
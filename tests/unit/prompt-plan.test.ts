@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { parseChecklist, parsePromptPlan, setChecklistItem, summarizeChecklist } from "../../src/utils/prompt-plan";
+
+const plan = `# Prompt Plan
+
+## Design Prompt
+**Screens**
+- Order board.
+
+## Implementation Steps
+
+### Step 1: Project setup
+**Depends on**: None
+**Prompt**
+\`\`\`text
+Scaffold the app.
+
+### Step 9: not a real heading inside the prompt
+\`\`\`
+**Acceptance Tests**
+- \`npm test\` passes.
+- CI runs on pull requests.
+**Checklist**
+- [x] Initialize the repo
+- [X] Add CI
+
+### Step 2: Orders API
+Prompt: Add the orders table and endpoints.
+Acceptance Tests:
+1. Creating an order returns 201.
+Checklist:
+- [ ] Write the migration
+- [x] Implement endpoints
+
+### Step 3 – Reminders
+**Depends on:** Step 1 and Step 2
+- [ ] Send reminders
+
+## Notes
+- [ ] Not part of any step
+`;
+
+describe("parsePromptPlan", () => {
+  it("parses steps with prompts, tests, checklist state and dependencies", () => {
+    const { steps } = parsePromptPlan(plan);
+
+    expect(steps).toEqual([
+      {
+        id: "step-1",
+        number: 1,
+        title: "Project setup",
+        prompt: "Scaffold the app.\n\n### Step 9: not a real heading inside the prompt",
+        tests: ["`npm test` passes.", "CI runs on pull requests."],
+        checklist: [
+          { text: "Initialize the repo", checked: true },
+          { text: "Add CI", checked: true }
+        ],
+        depends_on: [],
+        done: true
+      },
+      {
+        id: "step-2",
+        number: 2,
+        title: "Orders API",
+        prompt: "Add the orders table and endpoints.",
+        tests: ["Creating an order returns 201."],
+        checklist: [
+          { text: "Write the migration", checked: false },
+          { text: "Implement endpoints", checked: true }
+        ],
+        depends_on: ["step-1"],
+        done: false
+      },
+      {
+        id: "step-3",
+        number: 3,
+        title: "Reminders",
+        prompt: null,
+        tests: [],
+        checklist: [{ text: "Send reminders", checked: false }],
+        depends_on: ["step-1", "step-2"],
+        done: false
+      }
+    ]);
+  });
+
+  it("returns no steps for plans without step headings", () => {
+    expect(parsePromptPlan("# Prompt Plan\n\n## TODO\n- [ ] Validate docs")).toEqual({ steps: [] });
+    expect(parsePromptPlan("")).toEqual({ steps: [] });
+  });
+});
+
+describe("plan checklist", () => {
+  it("lists every checklist item with its section", () => {
+    const items = parseChecklist(plan);
+
+    expect(items.map(({ index, section, checked }) => [index, section, checked])).toEqual([
+      [0, "Step 1: Project setup", true],
+      [1, "Step 1: Project setup", true],
+      [2, "Step 2: Orders API", false],
+      [3, "Step 2: Orders API", true],
+      [4, "Step 3 – Reminders", false],
+      [5, "Notes", false]
+    ]);
+  });
+
+  it("toggles a single item and leaves the rest of the doc untouched", () => {
+    const updated = setChecklistItem(plan, 2, true)!;
+
+    expect(updated).toBe(plan.replace("- [ ] Write the migration", "- [x] Write the migration"));
+    expect(setChecklistItem(updated, 0, false)).toBe(updated.replace("- [x] Initialize the repo", "- [ ] Initialize the repo"));
+    expect(setChecklistItem(plan, 6, true)).toBeUndefined();
+  });
+
+  it("summarizes progress overall and per section", () => {
+    expect(summarizeChecklist(parseChecklist(plan))).toEqual({
+      total: 6,
+      done: 3,
+      percent: 50,
+      sections: [
+        { section: "Step 1: Project setup", total: 2, done: 2, percent: 100 },
+        { section: "Step 2: Orders API", total: 2, done: 1, percent: 50 },
+        { section: "Step 3 – Reminders", total: 1, done: 0, percent: 0 },
+        { section: "Notes", total: 1, done: 0, percent: 0 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { loadPromptTemplates, promptIds, renderPrompt } from "../../src/libs/prompts";
+
+const tmpDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tmpDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("prompt templates", () => {
+  it("ships a bundled template for every prompt id", () => {
+    const templates = loadPromptTemplates();
+    for (const id of promptIds) {
+      expect(templates[id]).toMatchObject({ id, version: 1 });
+      expect(templates[id].body).not.toMatch(/^---/);
+    }
+  });
+
+  it("interpolates variables into the template body", () => {
+    const templates = loadPromptTemplates();
+    const rendered = renderPrompt(
+      "chat.spec",
+      { idea_doc: "## Problem\nBakeries lose orders.", ready_flag: "READY_TO_COMPILE_SPEC" },
+      templates
+    );
+
+    expect(rendered).toMatchObject({ id: "chat.spec", version: 1 });
+    expect(rendered.text).toContain("Here's the idea:\n## Problem\nBakeries lose orders.");
+    expect(rendered.text).toContain("end that prompt with 'READY_TO_COMPILE_SPEC' on its own line.");
+    expect(rendered.text).not.toContain("{{");
+  });
+
+  it("rejects templates that use variables the caller does not provide", () => {
+    const templates = loadPromptTemplates();
+    expect(() => renderPrompt("chat.spec", { ready_flag: "READY_TO_COMPILE_SPEC" }, templates)).toThrow(/idea_doc/);
+  });
+
+  it("replaces bundled templates with the overrides in PROMPTS_PATH", () => {
+    const dir = writeOverrides({
+      "writer.spec.compile.md": "---\nversion: 3\ndescription: Shorter compile request.\n---\nCompile the spec now.\n"
+    });
+
+    const templates = loadPromptTemplates(dir);
+
+    expect(renderPrompt("writer.spec.compile", {}, templates)).toEqual({
+      id: "writer.spec.compile",
+      version: 3,
+      text: "Compile the spec now."
+    });
+    expect(templates["writer.spec"].version).toBe(1);
+  });
+
+  it("throws on overrides with an unknown id or a missing version", () => {
+    expect(() => loadPromptTemplates(writeOverrides({ "writer.specs.md": "---\nversion: 1\n---\nHi" }))).toThrow(
+      /Unknown prompt template/
+    );
+    expect(() => loadPromptTemplates(writeOverrides({ "chat.intake.md": "---\ndescription: No version\n---\nHi" }))).toThrow(
+      /version must be a positive integer/
+    );
+    expect(() => loadPromptTemplates(writeOverrides({ "chat.intake.md": "Just a body" }))).toThrow(/front matter/);
+  });
+
+  it("throws on overrides that use a variable their prompt id does not provide", () => {
+    expect(() =>
+      loadPromptTemplates(writeOverrides({ "chat.design.md": "---\nversion: 2\n---\nSpec:\n{{spec}}\n{{ready_flag}}" }))
+    ).toThrow(/chat\.design\.md: unknown variable "spec"; expected one of: spec_doc, ready_flag/);
+    expect(() => loadPromptTemplates(writeOverrides({ "writer.spec.md": "---\nversion: 2\n---\n{{idea_doc}}" }))).toThrow(
+      /unknown variable "idea_doc"; it takes no variables/
+    );
+  });
+});
+
+function writeOverrides(files: Record<string, string>) {
+  const dir = mkdtempSync(path.join(tmpdir(), "prompts-"));
+  tmpDirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
@@ -4,6 +4,7 @@ import { createApp, type NextRequestHandler } from "../../src/server";
 import { db } from "../../src/db/client";
 import { chatMessages, designs, docs, sessions } from "../../src/db/schema";
 import { SESSION_COOKIE_NAME } from "../../src/utils/session-cookie";
+import { recordLlmCall } from "../../src/services/llm-usage";
 import { env } from "../../src/env";
 
 const noopNextHandler: NextRequestHandler = async (_req, res) => {
@@ -84,6 +85,8 @@ describe("session routes", () => {
     expect(payload.current_stage).toBe("intake");
     expect(payload.docs).toHaveLength(4);
     expect(payload.designs_count).toBe(0);
+    expect(payload.stale_docs).toEqual([]);
+    expect(payload.upstream_changed).toEqual({});
     expect(payload.approved).toMatchObject({
       intake: false,
       spec: false,
@@ -107,4 +110,31 @@ describe("session routes", () => {
     });
     expect(response.statusCode).toBe(401);
   });
+
+  it("summarizes recorded LLM usage per stage", async () => {
+    const initResponse = await app.inject({ method: "POST", url: "/api/session/init" });
+    const { session_id } = initResponse.json() as { session_id: string };
+    const cookie = initResponse.headers["set-cookie"]!;
+
+    const call = { sessionId: session_id, model: "gpt-4o-mini", latencyMs: 250, ok: true } as const;
+    await recordLlmCall({ ...call, stage: "intake", kind: "chat", inputTokens: 1_000, outputTokens: 200 });
+    await recordLlmCall({ ...call, stage: "intake", kind: "generation", inputTokens: 2_000, outputTokens: 800 });
+    await recordLlmCall({ ...call, stage: "spec", kind: "generation", inputTokens: 4_000, outputTokens: 1_000 });
+
+    const response = await app.inject({ method: "GET", url: "/api/session/usage", headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    const usage = response.json();
+    expect(usage.totals).toMatchObject({ calls: 3, input_tokens: 7_000, output_tokens: 2_000, total_tokens: 9_000 });
+    expect(usage.totals.cost_usd).toBeCloseTo((7_000 * 0.15 + 2_000 * 0.6) / 1_000_000, 10);
+    expect(usage.by_stage).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ stage: "intake", calls: 2, total_tokens: 4_000 }),
+        expect.objectContaining({ stage: "spec", calls: 1, total_tokens: 5_000 })
+      ])
+    );
+
+    const anonymous = await app.inject({ method: "GET", url: "/api/session/usage" });
+    expect(anonymous.statusCode).toBe(401);
+  });
 });
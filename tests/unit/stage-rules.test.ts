@@ -0,0 +1,78 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { evaluateStageRules, loadStageRules, type StageRule } from "../../src/validators/stage-rules";
+
+const tmpDir = mkdtempSync(path.join(tmpdir(), "stage-rules-"));
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("stage rules", () => {
+  it("evaluates every rule type and reports failures in order", () => {
+    const rules: StageRule[] = [
+      { id: "section", type: "required_section", section: "Audience" },
+      { id: "words", type: "min_words", min: 10 },
+      { id: "pattern", type: "required_pattern", pattern: "definition\\s+of\\s+done", flags: "i" },
+      { id: "phrase", type: "forbidden_phrase", phrase: "tbd" },
+      { id: "length", type: "max_length", max: 20, message: "Keep spec.md short." }
+    ];
+
+    const failures = evaluateStageRules(rules, "spec.md", "## Problem\nDetails are TBD for now.");
+
+    expect(failures).toEqual([
+      { rule: "section", reason: 'spec.md is missing the "Audience" section.' },
+      { rule: "words", reason: "spec.md must have at least 10 words (has 7)." },
+      { rule: "pattern", reason: "spec.md must match /definition\\s+of\\s+done/i." },
+      { rule: "phrase", reason: 'spec.md must not contain "tbd".' },
+      { rule: "length", reason: "Keep spec.md short." }
+    ]);
+  });
+
+  it("passes content that satisfies the rules", () => {
+    const rules: StageRule[] = [
+      { id: "phrase", type: "forbidden_phrase", phrase: "tbd", case_sensitive: true },
+      { id: "length", type: "max_length", max: 100 }
+    ];
+    expect(evaluateStageRules(rules, "spec.md", "Details are TBD.")).toEqual([]);
+  });
+
+  it("ships the bundled rules for every doc stage", () => {
+    const rules = loadStageRules();
+    expect(rules.intake.map((rule) => rule.id)).toContain("intake.section.problem");
+    expect(rules.spec.map((rule) => rule.id)).toContain("spec.definition-of-done");
+    expect(rules.agents.map((rule) => rule.id)).toContain("agents.responsibility-section");
+    expect(rules.prompt_plan).toEqual([]);
+  });
+
+  it("replaces the bundled rules for stages listed in the rules file", () => {
+    const rulesPath = writeRules({
+      version: 1,
+      stages: { spec: [{ id: "spec.no-todo", type: "forbidden_phrase", phrase: "TODO" }] }
+    });
+
+    const rules = loadStageRules(rulesPath);
+
+    expect(rules.spec).toEqual([{ id: "spec.no-todo", type: "forbidden_phrase", phrase: "TODO" }]);
+    expect(rules.intake.map((rule) => rule.id)).toContain("intake.section.problem");
+  });
+
+  it("rejects rules files with unknown rule types or bad patterns", () => {
+    const unknownType = writeRules({ version: 1, stages: { spec: [{ id: "spec.x", type: "spellcheck" }] } });
+    expect(() => loadStageRules(unknownType)).toThrow(/Invalid validation rules/);
+
+    const badPattern = writeRules({
+      version: 1,
+      stages: { agents: [{ id: "agents.bad", type: "required_pattern", pattern: "(" }] }
+    });
+    expect(() => loadStageRules(badPattern)).toThrow(/rule agents\.bad has a bad pattern/);
+  });
+});
+
+function writeRules(content: unknown) {
+  const rulesPath = path.join(tmpDir, `${Math.random().toString(36).slice(2)}.json`);
+  writeFileSync(rulesPath, JSON.stringify(content));
+  return rulesPath;
+}
@@ -1,5 +1,5 @@
 import { randomUUID } from "node:crypto";
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { eq, and } from "drizzle-orm";
 import { db } from "../../src/db/client";
 import {
@@ -11,6 +11,11 @@ import {
   type StageName
 } from "../../src/db/schema";
 import { validateStage } from "../../src/validators/stage-validator";
+import { parseSemanticVerdict } from "../../src/validators/semantic-validator";
+
+const { validateResponseMock } = vi.hoisted(() => ({ validateResponseMock: vi.fn() }));
+
+vi.mock("../../src/libs/llm", () => ({ validateResponse: validateResponseMock }));
 
 describe("stage validators", () => {
   let sessionId: string;
@@ -23,7 +28,24 @@ describe("stage validators", () => {
     it("fails when idea_one_pager.md is empty", async () => {
       const result = await validateStage(sessionId, "intake");
       expect(result.ok).toBe(false);
-      expect(result.reasons[0]).toContain("idea_one_pager.md");
+      expect(result.reasons[0].message).toContain("idea_one_pager.md");
+    });
+
+    it("returns failed rule ids as structured reasons", async () => {
+      await setDocContent(sessionId, "idea_one_pager.md", "## Problem\nDetails\n\n## Audience\nDetails");
+      const result = await validateStage(sessionId, "intake");
+      expect(result.ok).toBe(false);
+      expect(result.reasons.map((reason) => reason.code)).toEqual([
+        "intake.section.platform",
+        "intake.section.core-flow",
+        "intake.section.mvp-features"
+      ]);
+      expect(result.reasons[0]).toEqual({
+        code: "intake.section.platform",
+        severity: "error",
+        message: 'idea_one_pager.md is missing the "Platform" section.',
+        location: { doc: "idea_one_pager.md", section: "Platform" }
+      });
     });
 
     it("passes when idea_one_pager.md has content", async () => {
@@ -38,7 +60,21 @@ describe("stage validators", () => {
       await setDocContent(sessionId, "spec.md", "# Spec\n\nDetails");
       const result = await validateStage(sessionId, "spec");
       expect(result.ok).toBe(false);
-      expect(result.reasons.some((reason) => reason.includes("Definition of Done"))).toBe(true);
+      expect(result.reasons.some((reason) => reason.message.includes("Definition of Done"))).toBe(true);
+    });
+
+    it("approves with a warning when the testing plan is missing", async () => {
+      await setDocContent(sessionId, "spec.md", "# Spec\n\nProblem alignment\n\n## Definition of Done\n- Checklist");
+      const result = await validateStage(sessionId, "spec");
+      expect(result.ok).toBe(true);
+      expect(result.reasons).toEqual([
+        {
+          code: "spec.testing-plan",
+          severity: "warning",
+          message: "spec.md has no testing plan; the prompt plan's acceptance tests will have little to build on.",
+          location: { doc: "spec.md" }
+        }
+      ]);
     });
 
     it("passes when spec references prior docs and has Definition of Done", async () => {
@@ -56,7 +92,7 @@ describe("stage validators", () => {
     it("fails when no designs are uploaded", async () => {
       const result = await validateStage(sessionId, "design");
       expect(result.ok).toBe(false);
-      expect(result.reasons[0]).toContain("designs");
+      expect(result.reasons[0].message).toContain("designs");
     });
 
     it("passes once at least one design is present", async () => {
@@ -70,7 +106,7 @@ describe("stage validators", () => {
     it("fails when prompt_plan.md is empty", async () => {
       const result = await validateStage(sessionId, "prompt_plan");
       expect(result.ok).toBe(false);
-      expect(result.reasons[0]).toContain("prompt_plan.md");
+      expect(result.reasons[0].message).toContain("prompt_plan.md");
     });
 
     it("passes when prompt_plan.md has content", async () => {
@@ -85,7 +121,7 @@ describe("stage validators", () => {
       await setDocContent(sessionId, "AGENTS.md", "# Overview");
       const result = await validateStage(sessionId, "agents");
       expect(result.ok).toBe(false);
-      expect(result.reasons[0]).toContain("Agent responsibility");
+      expect(result.reasons[0].message).toContain("Agent responsibility");
     });
 
     it("passes when Agent responsibility section exists", async () => {
@@ -99,7 +135,7 @@ describe("stage validators", () => {
     it("fails when any doc is empty", async () => {
       const result = await validateStage(sessionId, "export");
       expect(result.ok).toBe(false);
-      expect(result.reasons[0]).toContain(".md");
+      expect(result.reasons[0].message).toContain(".md");
     });
 
     it("passes after manifest inputs are populated", async () => {
@@ -108,6 +144,86 @@ describe("stage validators", () => {
       expect(result.ok).toBe(true);
     });
   });
+
+  describe("semantic pass", () => {
+    const specContent = "# Spec\n\nProblem alignment\n\n## Definition of Done\n- Checklist";
+
+    beforeEach(() => {
+      validateResponseMock.mockReset();
+    });
+
+    it("is skipped unless enabled", async () => {
+      await setDocContent(sessionId, "spec.md", specContent);
+      const result = await validateStage(sessionId, "spec");
+      expect(result.ok).toBe(true);
+      expect(validateResponseMock).not.toHaveBeenCalled();
+    });
+
+    it("returns rubric issues as reasons", async () => {
+      await setDocContent(sessionId, "idea_one_pager.md", requiredSectionsContent());
+      await setDocContent(sessionId, "spec.md", specContent);
+      validateResponseMock.mockResolvedValue({
+        text: JSON.stringify({
+          issues: [
+            { check: "contradiction", message: "Platform says iOS but the one-pager targets web." },
+            { check: "untestable_requirement", message: "Definition of Done item \"Checklist\" cannot be verified." }
+          ]
+        })
+      });
+
+      const result = await validateStage(sessionId, "spec", { semantic: true });
+
+      expect(result.ok).toBe(false);
+      expect(result.reasons.filter((reason) => reason.code.startsWith("semantic."))).toEqual([
+        {
+          code: "semantic.contradiction",
+          severity: "error",
+          message: "Platform says iOS but the one-pager targets web.",
+          location: { doc: "spec.md" }
+        },
+        {
+          code: "semantic.untestable_requirement",
+          severity: "error",
+          message: 'Definition of Done item "Checklist" cannot be verified.',
+          location: { doc: "spec.md" }
+        }
+      ]);
+      const [{ input, context }] = validateResponseMock.mock.calls[0];
+      expect(context).toEqual({ sessionId, stage: "spec" });
+      expect(JSON.stringify(input)).toContain("REFERENCE idea_one_pager.md");
+    });
+
+    it("does not call the model when structural checks fail", async () => {
+      await setDocContent(sessionId, "spec.md", "# Spec\n\nDetails");
+      const result = await validateStage(sessionId, "spec", { semantic: true });
+      expect(result.ok).toBe(false);
+      expect(validateResponseMock).not.toHaveBeenCalled();
+    });
+
+    it("passes when the model is unavailable", async () => {
+      await setDocContent(sessionId, "spec.md", specContent);
+      validateResponseMock.mockRejectedValue(new Error("OPENAI_API_KEY is required to call OpenAI APIs."));
+      const result = await validateStage(sessionId, "spec", { semantic: true });
+      expect(result.ok).toBe(true);
+    });
+
+    it("skips stages without a doc to review", async () => {
+      await addDesign(sessionId);
+      const result = await validateStage(sessionId, "design", { semantic: true });
+      expect(result.ok).toBe(true);
+      expect(validateResponseMock).not.toHaveBeenCalled();
+    });
+
+    it("parses fenced verdicts and drops unknown checks", () => {
+      const text = [
+        "```json",
+        '{"issues": [{"check": "tone", "message": "Too formal."}, {"check": "section_substantive", "message": " Audience is TBD. "}]}',
+        "```"
+      ].join("\n");
+      expect(parseSemanticVerdict(text)).toEqual([{ check: "section_substantive", message: "Audience is TBD." }]);
+      expect(parseSemanticVerdict("Looks good to me!")).toEqual([]);
+    });
+  });
 });
 
 async function createSession(overrides: Partial<typeof sessions.$inferInsert> = {}) {
@@ -1,16 +1,19 @@
 import { describe, expect, it, beforeEach, afterEach, vi, type Mock } from "vitest";
 import { randomUUID } from "node:crypto";
 import { runStage } from "../../src/services/orchestrator";
+import { findUpstreamChanges } from "../../src/services/doc-staleness";
+import { writeDocVersion } from "../../src/services/doc-versions";
+import { validateStage } from "../../src/validators/stage-validator";
 import { db } from "../../src/db/client";
-import { chatMessages, docs, docNames, sessions } from "../../src/db/schema";
-import { and, eq } from "drizzle-orm";
+import { chatMessages, docVersions, docs, docNames, sessions } from "../../src/db/schema";
+import { and, desc, eq } from "drizzle-orm";
 
-vi.mock("../../src/libs/openai", () => {
+vi.mock("../../src/libs/llm", () => {
   const generateResponse = vi.fn();
   return { generateResponse };
 });
 
-const { generateResponse } = await import("../../src/libs/openai");
+const { generateResponse } = await import("../../src/libs/llm");
 const SPEC_COMPILE_PROMPT =
   "Now that we've wrapped up the brainstorming process, can you compile our findings into a comprehensive, developer-ready specification? Include all relevant requirements, architecture choices, data handling details, error handling strategies, and a testing plan so a developer can immediately begin implementation.";
 
@@ -61,7 +64,7 @@ Mobile apps in the MVP.`);
   });
 
   it("uses intake Q&A responses to craft idea_one_pager.md sections", async () => {
-    await db.insert(chatMessages).values([
+    await insertConversation([
       {
         sessionId,
         stage: "intake",
@@ -164,7 +167,7 @@ Native mobile apps or channel-specific automation in v1.`);
       .set({ content: seededOnePager() })
       .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "idea_one_pager.md")));
 
-    await db.insert(chatMessages).values([
+    await insertConversation([
       {
         sessionId,
         stage: "spec",
@@ -214,6 +217,162 @@ Native mobile apps or channel-specific automation in v1.`);
       ])
     );
   });
+
+  it("drafts a project-specific design brief from spec.md", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    mockLLMResponse(`## Screens
+- Order board with one column per status.
+
+### Accessibility
+- Cards are reachable and movable with the keyboard.`);
+
+    const result = await runStage({ sessionId, stage: "design" });
+    expect(result.status).toBe("ready");
+    const planDoc = await readDoc(sessionId, "prompt_plan.md");
+    expect(planDoc).toContain("## Design Prompt");
+    expect(planDoc).toContain("**Screens**\n- Order board with one column per status.");
+    expect(planDoc).toContain("**Accessibility**");
+    expect(planDoc).not.toContain("workflow strip");
+
+    const lastCall = (generateResponse as Mock).mock.calls.at(-1)?.[0];
+    expect(JSON.stringify(lastCall?.input)).toContain("Bakery order board");
+    expect(lastCall?.context).toMatchObject({ sessionId, stage: "design" });
+
+    const version = await db.query.docVersions.findFirst({
+      where: and(eq(docVersions.sessionId, sessionId), eq(docVersions.name, "prompt_plan.md")),
+      orderBy: [desc(docVersions.id)]
+    });
+    expect(version).toMatchObject({ promptId: "writer.design", promptVersion: 1 });
+  });
+
+  it("passes directions from the design conversation to the brief", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    await insertConversation([
+      { sessionId, stage: "design", role: "assistant", content: "Should the order board favor tablets or phones?" },
+      { sessionId, stage: "design", role: "user", content: "Landscape tablets only; staff never use phones at the counter." }
+    ]);
+    mockLLMResponse("**Screens**\n- Landscape order board.");
+
+    await runStage({ sessionId, stage: "design" });
+
+    const lastCall = (generateResponse as Mock).mock.calls.at(-1)?.[0];
+    expect(JSON.stringify(lastCall?.input)).toContain("OPERATOR DIRECTIONS FROM THIS STAGE'S CONVERSATION");
+    expect(JSON.stringify(lastCall?.input)).toContain("USER: Landscape tablets only");
+  });
+
+  it("falls back to the design template when the model is unavailable", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    (generateResponse as Mock).mockRejectedValueOnce(new Error("offline"));
+
+    const result = await runStage({ sessionId, stage: "design" });
+    expect(result.status).toBe("ready");
+    const planDoc = await readDoc(sessionId, "prompt_plan.md");
+    expect(planDoc).toContain("## Design Prompt");
+    expect(planDoc).toContain("workflow strip");
+  });
+
+  it("drafts spec-derived implementation steps into prompt_plan.md", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    await setDoc(sessionId, "prompt_plan.md", "# Prompt Plan\n\n## Design Prompt\n\nTablet order board.");
+    mockLLMResponse(`Here is the plan.
+
+### Step 1: Orders API
+**Prompt**
+\`\`\`text
+Add an orders table and CRUD endpoints.
+\`\`\`
+**Acceptance Tests**
+- Creating an order returns 201.
+**Checklist**
+- [ ] Write the migration`);
+
+    const result = await runStage({ sessionId, stage: "prompt_plan" });
+    expect(result.status).toBe("ready");
+    const planDoc = await readDoc(sessionId, "prompt_plan.md");
+    expect(planDoc).toContain("## Design Prompt\nTablet order board.");
+    expect(planDoc).toContain("## Implementation Steps\n\n### Step 1: Orders API");
+    expect(planDoc).toContain("- [ ] Write the migration");
+    expect(planDoc).not.toContain("Here is the plan.");
+    expect(planDoc).not.toContain("Stage Progression");
+
+    const lastCall = (generateResponse as Mock).mock.calls.at(-1)?.[0];
+    expect(JSON.stringify(lastCall?.input)).toContain("Tablet order board.");
+  });
+
+  it("keeps the template prompt plan when the model output has no checklist steps", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    mockLLMResponse("1. Build it.\n2. Ship it.");
+
+    const result = await runStage({ sessionId, stage: "prompt_plan" });
+    expect(result.status).toBe("ready");
+    const planDoc = await readDoc(sessionId, "prompt_plan.md");
+    expect(planDoc).toContain("## Stage Progression");
+  });
+
+  it("drafts an AGENTS.md handbook and keeps the responsibility block verbatim", async () => {
+    await setDoc(sessionId, "spec.md", seededSpec());
+    await setDoc(sessionId, "prompt_plan.md", "# Prompt Plan\n\n## Implementation Steps\n\n### Step 1: Setup");
+    mockLLMResponse(`# AGENTS.md
+
+## Tech Stack
+Next.js with SQLite.
+
+## Agent responsibility
+- Improvise as needed.
+
+## Build & Test Commands
+\`\`\`bash
+pnpm test
+\`\`\``);
+
+    const result = await runStage({ sessionId, stage: "agents" });
+    expect(result.status).toBe("ready");
+    const agentsDoc = await readDoc(sessionId, "AGENTS.md");
+    expect(agentsDoc.startsWith("# AGENTS\n\n## Tech Stack\nNext.js with SQLite.")).toBe(true);
+    expect(agentsDoc).toContain("pnpm test");
+    expect(agentsDoc).not.toContain("Improvise as needed.");
+    expect(agentsDoc).not.toContain("# AGENTS.md");
+    expect(agentsDoc.match(/## Agent responsibility/g)).toHaveLength(1);
+    expect(agentsDoc).toContain(
+      "- Use the same Markdown checkbox format (`- [x]`) to mark completion.\n- When creating new tasks or subtasks"
+    );
+    await expect(validateStage(sessionId, "agents")).resolves.toEqual({ ok: true, reasons: [] });
+  });
+
+  it("falls back to the AGENTS.md template when the model is unavailable", async () => {
+    await setDoc(sessionId, "prompt_plan.md", "# Prompt Plan\n\n## Implementation Steps\n\n### Step 1: Setup");
+    (generateResponse as Mock).mockRejectedValueOnce(new Error("offline"));
+
+    const result = await runStage({ sessionId, stage: "agents" });
+    expect(result.status).toBe("ready");
+    const agentsDoc = await readDoc(sessionId, "AGENTS.md");
+    expect(agentsDoc).toContain("## Manual Checklist");
+    expect(agentsDoc).toContain("## Agent responsibility");
+  });
+
+  it("flags spec.md as stale once the one-pager it was generated from changes", async () => {
+    await db
+      .update(docs)
+      .set({ content: seededOnePager() })
+      .where(and(eq(docs.sessionId, sessionId), eq(docs.name, "idea_one_pager.md")));
+    (generateResponse as Mock).mockRejectedValueOnce(new Error("offline"));
+
+    const result = await runStage({ sessionId, stage: "spec" });
+    expect(result.status).toBe("ready");
+    expect(await findUpstreamChanges(sessionId)).toEqual({});
+
+    await writeDocVersion({
+      sessionId,
+      name: "idea_one_pager.md",
+      content: `${seededOnePager()}\n\n## Pricing\nFreemium.`,
+      author: "user"
+    });
+    expect(await findUpstreamChanges(sessionId)).toEqual({ "spec.md": ["idea_one_pager.md"] });
+
+    (generateResponse as Mock).mockRejectedValueOnce(new Error("offline"));
+    await runStage({ sessionId, stage: "spec" });
+    expect(await findUpstreamChanges(sessionId)).toEqual({});
+  });
 });
 
 async function seedSessionWithIdea() {
@@ -251,7 +410,26 @@ async function seedSessionWithIdea() {
   return sessionId;
 }
 
-async function readDoc(sessionId: string, name: "idea_one_pager.md" | "spec.md") {
+// Inserts turns one at a time so each links to the previous one, as the chat route does
+async function insertConversation(rows: Array<typeof chatMessages.$inferInsert>) {
+  let parentId: number | null = null;
+  for (const row of rows) {
+    const inserted: Array<{ id: number }> = await db
+      .insert(chatMessages)
+      .values({ ...row, parentId })
+      .returning({ id: chatMessages.id });
+    parentId = inserted[0].id;
+  }
+}
+
+async function setDoc(sessionId: string, name: "idea_one_pager.md" | "spec.md" | "prompt_plan.md", content: string) {
+  await db
+    .update(docs)
+    .set({ content })
+    .where(and(eq(docs.sessionId, sessionId), eq(docs.name, name)));
+}
+
+async function readDoc(sessionId: string, name: "idea_one_pager.md" | "spec.md" | "prompt_plan.md" | "AGENTS.md") {
   const row = await db.query.docs.findFirst({
     where: (table, { and }) => and(eq(table.sessionId, sessionId), eq(table.name, name))
   });
@@ -284,16 +462,15 @@ Native mobile apps in v1.`;
 }
 
 function mockLLMResponse(text: string) {
-  (generateResponse as Mock).mockResolvedValueOnce({
-    output: [
-      {
-        type: "message",
-        message: {
-          role: "assistant",
-          content: [{ type: "output_text", text }]
-        }
-      }
-    ],
-    output_text: [text]
-  });
+  (generateResponse as Mock).mockResolvedValueOnce({ text });
+}
+
+function seededSpec() {
+  return `# Functional Spec
+
+## Summary
+Bakery order board that tracks custom cakes from request to pickup.
+
+## Definition of Done
+- Orders move through every status.`;
 }
@@ -1,8 +1,10 @@
 import { describe, expect, it, beforeAll, afterAll } from "vitest";
 import { eq, and } from "drizzle-orm";
 import { db } from "../../src/db/client";
-import { docs, designs, sessions, type StageName } from "../../src/db/schema";
+import { docs, designs, sessions, stageReopens, type StageName } from "../../src/db/schema";
 import { createApp, type NextRequestHandler } from "../../src/server";
+import { runStage } from "../../src/services/orchestrator";
+import { agentResponsibilityBlock } from "../../src/orchestrator/writers";
 
 const noopNextHandler: NextRequestHandler = async (_req, res) => {
   res.statusCode = 404;
@@ -44,7 +46,8 @@ describe("stage routes", () => {
 
     expect(response.statusCode).toBe(422);
     expect(response.json()).toMatchObject({ ok: false });
-    expect(response.json().reasons[0]).toContain("idea_one_pager.md");
+    expect(response.json().reasons[0]).toMatchObject({ code: "intake.content", severity: "error" });
+    expect(response.json().reasons[0].message).toContain("idea_one_pager.md");
   });
 
   it("approves intake stage, locks doc, and advances to spec", async () => {
@@ -75,7 +78,7 @@ describe("stage routes", () => {
 
     const failure = await postStage(session.cookie, "design");
     expect(failure.statusCode).toBe(422);
-    expect(failure.json().reasons[0]).toContain("designs");
+    expect(failure.json().reasons[0].message).toContain("designs");
 
     await db.insert(designs).values({
       sessionId: session.sessionId,
@@ -97,6 +100,31 @@ describe("stage routes", () => {
     expect(dbSession?.currentStage).toBe("prompt_plan");
   });
 
+  it("approves despite warnings, records them, and lists them in the export manifest", async () => {
+    const session = await createSession();
+    await setSessionStage(session.sessionId, "spec");
+    await setDocContent(session.sessionId, "spec.md", "# Spec\n\nProblem alignment\n\n## Definition of Done\n- Ships");
+
+    const response = await postStage(session.cookie, "spec");
+
+    const warning = {
+      code: "spec.testing-plan",
+      severity: "warning",
+      message: "spec.md has no testing plan; the prompt plan's acceptance tests will have little to build on.",
+      location: { doc: "spec.md" }
+    };
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, warnings: [warning] });
+
+    const manifest = await app.inject({ method: "GET", url: "/api/export/manifest", headers: { cookie: session.cookie } });
+    expect(manifest.json().validation_warnings).toEqual([{ stage: "spec", ...warning }]);
+
+    const reopen = await reopenStage(session.cookie, "spec", "Add a testing plan");
+    expect(reopen.statusCode).toBe(200);
+    const afterReopen = await app.inject({ method: "GET", url: "/api/export/manifest", headers: { cookie: session.cookie } });
+    expect(afterReopen.json().validation_warnings).toEqual([]);
+  });
+
   it("approves agents stage and advances to export", async () => {
     const session = await createSession();
     await setSessionStage(session.sessionId, "agents");
@@ -112,6 +140,266 @@ describe("stage routes", () => {
     expect(Boolean(dbSession?.approvedAgents)).toBe(true);
     expect(dbSession?.currentStage).toBe("export");
   });
+
+  it("refuses to finalize export while docs are inconsistent", async () => {
+    const session = await createSession();
+    await prepareExport(session.sessionId);
+    await setDocContent(session.sessionId, "AGENTS.md", "# AGENTS\n\n## Tech Stack\n- Next.js");
+    await db
+      .update(docs)
+      .set({ approved: false })
+      .where(and(eq(docs.sessionId, session.sessionId), eq(docs.name, "spec.md")));
+
+    const response = await postStage(session.cookie, "export");
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json()).toEqual({
+      ok: false,
+      reasons: [
+        { code: "EXPORT_INCONSISTENT", severity: "error", message: "spec.md is not approved." },
+        {
+          code: "EXPORT_INCONSISTENT",
+          severity: "error",
+          message: 'AGENTS.md no longer has an "Agent responsibility" section.'
+        }
+      ]
+    });
+    const dbSession = await db.query.sessions.findFirst({ where: eq(sessions.sessionId, session.sessionId) });
+    expect(dbSession?.finalizedAt).toBeNull();
+  });
+
+  it("finalizes the session on export approval and makes it read-only", async () => {
+    const session = await createSession();
+    await prepareExport(session.sessionId);
+
+    const response = await postStage(session.cookie, "export");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, finalized_at: expect.any(Number) });
+    const dbSession = await db.query.sessions.findFirst({ where: eq(sessions.sessionId, session.sessionId) });
+    expect(dbSession?.finalizedAt).toBe(response.json().finalized_at);
+    expect(dbSession?.handoff).toContain("# Handoff");
+    expect(dbSession?.handoff).toContain("- Step 1: Setup");
+    expect(dbSession?.handoff).toContain("Checklist: 1 of 2 items complete.");
+
+    const sessionResponse = await app.inject({ method: "GET", url: "/api/session", headers: { cookie: session.cookie } });
+    expect(sessionResponse.json().finalized_at).toBe(response.json().finalized_at);
+
+    const edit = await app.inject({
+      method: "PUT",
+      url: "/api/docs/spec.md",
+      headers: { cookie: session.cookie },
+      payload: { content: "# Changed" }
+    });
+    expect(edit.statusCode).toBe(409);
+    expect(edit.json()).toEqual({ error: "SESSION_FINALIZED" });
+
+    const reopen = await reopenStage(session.cookie, "spec", "One more change");
+    expect(reopen.statusCode).toBe(409);
+    expect(reopen.json()).toEqual({ error: "SESSION_FINALIZED" });
+
+    const chat = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      headers: { cookie: session.cookie },
+      payload: { message: "One more thing", stage: "export" }
+    });
+    expect(chat.statusCode).toBe(409);
+    // The rejected turn must not leave its chat lock behind
+    expect(app.rateLimiter.acquireChat(session.sessionId)).toBe(true);
+    app.rateLimiter.releaseChat(session.sessionId);
+
+    const bundle = await app.inject({ method: "GET", url: "/api/export/manifest", headers: { cookie: session.cookie } });
+    expect(bundle.statusCode).toBe(200);
+    expect(bundle.json().docs.map((doc: { name: string }) => doc.name)).toContain("HANDOFF.md");
+  });
+
+  it("lists stored graph checkpoints for a stage run", async () => {
+    const session = await createSession();
+    await runStage({
+      sessionId: session.sessionId,
+      stage: "design",
+      driver: { run: async () => ({ status: "ready" }) },
+      reingest: async () => {}
+    });
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/stages/design/checkpoints",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { stage, checkpoints } = response.json();
+    expect(stage).toBe("design");
+    expect(checkpoints[0]).toMatchObject({ status: "ready", next: [], llm_calls: 0 });
+    expect(checkpoints.some((checkpoint: { next: string[] }) => checkpoint.next.includes("design"))).toBe(true);
+
+    const empty = await app.inject({
+      method: "GET",
+      url: "/api/stages/agents/checkpoints",
+      headers: { cookie: session.cookie }
+    });
+    expect(empty.json().checkpoints).toEqual([]);
+  });
+
+  it("dry-runs stage validation with per-check status and no side effects", async () => {
+    const session = await createSession();
+    await setDocContent(session.sessionId, "idea_one_pager.md", "## Problem\n\n## Audience");
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/stages/intake/validation",
+      headers: { cookie: session.cookie }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body).toMatchObject({ stage: "intake", ok: false });
+    expect(body.checks).toContainEqual({
+      id: "intake.content",
+      label: "idea_one_pager.md has content",
+      status: "pass",
+      severity: "error"
+    });
+    expect(body.checks).toContainEqual({
+      id: "intake.section.problem",
+      label: "Problem section",
+      status: "pass",
+      severity: "error",
+      rule: true
+    });
+    expect(body.checks).toContainEqual({
+      id: "intake.section.platform",
+      label: "Platform section",
+      status: "fail",
+      severity: "error",
+      reason: 'idea_one_pager.md is missing the "Platform" section.',
+      location: { doc: "idea_one_pager.md", section: "Platform" },
+      rule: true
+    });
+
+    const row = await db.query.sessions.findFirst({ where: eq(sessions.sessionId, session.sessionId) });
+    expect(row?.currentStage).toBe("intake");
+    expect(row?.approvedIntake).toBe(false);
+
+    const invalid = await app.inject({
+      method: "GET",
+      url: "/api/stages/unknown/validation",
+      headers: { cookie: session.cookie }
+    });
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it("skips rule checks while the stage doc is empty", async () => {
+    const session = await createSession();
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/stages/spec/validation",
+      headers: { cookie: session.cookie }
+    });
+
+    const { checks } = response.json();
+    expect(checks[0]).toEqual({
+      id: "spec.content",
+      label: "spec.md has content",
+      status: "fail",
+      severity: "error",
+      reason: "spec.md is empty.",
+      location: { doc: "spec.md" }
+    });
+    expect(checks.slice(1).every((check: { status: string }) => check.status === "skip")).toBe(true);
+  });
+
+  it("requires a reason to reopen a stage", async () => {
+    const session = await createSession();
+    await setSessionStage(session.sessionId, "prompt_plan");
+
+    const response = await reopenStage(session.cookie, "spec", "  ");
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe("REASON_REQUIRED");
+  });
+
+  it("refuses to reopen a stage that has not been approved yet", async () => {
+    const session = await createSession();
+    await setSessionStage(session.sessionId, "spec");
+
+    const current = await reopenStage(session.cookie, "spec", "Missed a requirement");
+    expect(current.statusCode).toBe(409);
+    expect(current.json().error).toBe("STAGE_NOT_APPROVED");
+
+    const ahead = await reopenStage(session.cookie, "agents", "Missed a requirement");
+    expect(ahead.statusCode).toBe(409);
+  });
+
+  it("reopens an approved stage, unlocks later docs and marks downstream docs stale", async () => {
+    const session = await createSession();
+    await setSessionStage(session.sessionId, "agents");
+    await db
+      .update(sessions)
+      .set({ approvedIntake: true, approvedSpec: true, approvedDesign: true, approvedPromptPlan: true })
+      .where(eq(sessions.sessionId, session.sessionId));
+    for (const name of ["idea_one_pager.md", "spec.md", "prompt_plan.md"]) {
+      await setDocContent(session.sessionId, name, `# ${name}`);
+      await db
+        .update(docs)
+        .set({ approved: true })
+        .where(and(eq(docs.sessionId, session.sessionId), eq(docs.name, name as any)));
+    }
+
+    const response = await reopenStage(session.cookie, "spec", "Auth flow is missing from the spec");
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, current_stage: "spec", stale_docs: ["prompt_plan.md"] });
+
+    const dbSession = await db.query.sessions.findFirst({
+      where: eq(sessions.sessionId, session.sessionId)
+    });
+    expect(dbSession?.currentStage).toBe("spec");
+    expect(Boolean(dbSession?.approvedIntake)).toBe(true);
+    expect(Boolean(dbSession?.approvedSpec)).toBe(false);
+    expect(Boolean(dbSession?.approvedDesign)).toBe(false);
+    expect(Boolean(dbSession?.approvedPromptPlan)).toBe(false);
+
+    const docRows = await db.query.docs.findMany({ where: eq(docs.sessionId, session.sessionId) });
+    const byName = Object.fromEntries(docRows.map((doc) => [doc.name, doc]));
+    expect(Boolean(byName["idea_one_pager.md"].approved)).toBe(true);
+    expect(Boolean(byName["spec.md"].approved)).toBe(false);
+    expect(Boolean(byName["spec.md"].stale)).toBe(false);
+    expect(Boolean(byName["prompt_plan.md"].approved)).toBe(false);
+    expect(Boolean(byName["prompt_plan.md"].stale)).toBe(true);
+    expect(byName["prompt_plan.md"].content).toBe("# prompt_plan.md");
+    expect(Boolean(byName["AGENTS.md"].stale)).toBe(false);
+
+    const reopens = await db.query.stageReopens.findMany({
+      where: eq(stageReopens.sessionId, session.sessionId)
+    });
+    expect(reopens).toHaveLength(1);
+    expect(reopens[0]).toMatchObject({
+      stage: "spec",
+      fromStage: "agents",
+      reason: "Auth flow is missing from the spec"
+    });
+
+    const sessionResponse = await app.inject({
+      method: "GET",
+      url: "/api/session",
+      headers: { cookie: session.cookie }
+    });
+    expect(sessionResponse.json().stale_docs).toEqual(["prompt_plan.md"]);
+
+    const save = await app.inject({
+      method: "PUT",
+      url: "/api/docs/prompt_plan.md",
+      headers: { cookie: session.cookie },
+      payload: { content: "# prompt_plan.md\n\nRevised." }
+    });
+    expect(save.statusCode).toBe(200);
+    const refreshed = await db.query.docs.findFirst({
+      where: and(eq(docs.sessionId, session.sessionId), eq(docs.name, "prompt_plan.md"))
+    });
+    expect(Boolean(refreshed?.stale)).toBe(false);
+  });
 });
 
 async function createSession() {
@@ -128,6 +416,15 @@ async function postStage(cookie: string, stage: string) {
   });
 }
 
+async function reopenStage(cookie: string, stage: string, reason: string) {
+  return app.inject({
+    method: "POST",
+    url: `/api/stages/${stage}/reopen`,
+    headers: { cookie },
+    payload: { reason }
+  });
+}
+
 async function setDocContent(sessionId: string, name: string, content: string) {
   await db
     .update(docs)
@@ -151,3 +448,16 @@ function requiredSections() {
     "## MVP Features"
   ].join("\n\n");
 }
+
+async function prepareExport(sessionId: string) {
+  await setSessionStage(sessionId, "export");
+  await setDocContent(sessionId, "idea_one_pager.md", `## Summary\nBakery order board.\n\n${requiredSections()}`);
+  await setDocContent(sessionId, "spec.md", "# Spec\n\n## Definition of Done\n- Orders ship.");
+  await setDocContent(
+    sessionId,
+    "prompt_plan.md",
+    "# Prompt Plan\n\n## Implementation Steps\n\n### Step 1: Setup\n**Checklist**\n- [x] Init repo\n- [ ] Add CI"
+  );
+  await setDocContent(sessionId, "AGENTS.md", `# AGENTS\n\n## Agent responsibility\n\n${agentResponsibilityBlock()}`);
+  await db.update(docs).set({ approved: true }).where(eq(docs.sessionId, sessionId));
+}
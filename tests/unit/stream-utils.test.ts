@@ -21,4 +21,9 @@ describe("parseSSEPayload", () => {
     const payload = "event: assistant.delta\n\n";
     expect(parseSSEPayload(payload)).toBeUndefined();
   });
+
+  it("exposes the SSE id when present", () => {
+    const payload = ["id: 42", "event: doc.updated", "data: spec.md", ""].join("\n");
+    expect(parseSSEPayload(payload)).toEqual({ eventName: "doc.updated", data: "spec.md", id: 42 });
+  });
 });